@@ -0,0 +1,54 @@
+/**
+ * Companion Ads - Companion Reklam Slot'u
+ *
+ * AdContainer'ın companion reklamı render ettiği slot'u ve
+ * parse edilen companion'ların listesini gösterir
+ */
+
+import { forwardRef } from 'react';
+import { Card } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import type { CompanionAd } from '~/lib/vast';
+
+interface CompanionAdsProps {
+  /** Parse edilmiş companion reklamlar */
+  companions: CompanionAd[];
+}
+
+export const CompanionAds = forwardRef<HTMLDivElement, CompanionAdsProps>(
+  ({ companions }, ref) => {
+    return (
+      <Card title="Companion" padding={false}>
+        {/* Slot: AdContainer companion'ı buraya render eder */}
+        <div
+          ref={ref}
+          className="flex items-center justify-center min-h-[250px] bg-gray-100 dark:bg-gray-900 overflow-hidden"
+        />
+
+        {/* Companion listesi */}
+        <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+          {companions.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Companion reklam yok
+            </p>
+          ) : (
+            companions.map((companion, index) => (
+              <div key={companion.id || index} className="flex items-center gap-2 flex-wrap">
+                <Badge variant="info" size="sm">
+                  {companion.width}x{companion.height}
+                </Badge>
+                {companion.resources.map((resource, resourceIndex) => (
+                  <Badge key={resourceIndex} variant="gray" size="sm">
+                    {resource.type}
+                  </Badge>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </Card>
+    );
+  }
+);
+
+CompanionAds.displayName = 'CompanionAds';
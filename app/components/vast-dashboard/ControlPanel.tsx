@@ -2,18 +2,27 @@
  * Control Panel - VAST URL ve Proxy Kontrolleri
  *
  * Kullanıcının VAST URL girişi yapması ve proxy ayarlarını yapması için panel
+ * Fallback URL'leri girilirse tag'ler sırayla denenir (waterfall)
+ * Server-side çözümleme seçilirse wrapper zinciri /api/vast'ta çözülür
+ * Tracker doğrulama seçilirse tracker'ların gerçek status code'ları loglanır
  */
 
 import { useState } from 'react';
 import { Card } from '../ui/Card';
 import { Input } from '../ui/Input';
+import { Textarea } from '../ui/Textarea';
 import { Select } from '../ui/Select';
 import { Button } from '../ui/Button';
 import type { ProxyType, ProxyConfig } from '~/lib/vast';
 
 interface ControlPanelProps {
-  /** Load Ad callback */
-  onLoadAd: (vastUrl: string, proxyConfig: ProxyConfig) => void;
+  /** Load Ad callback (waterfall sırasıyla VAST URL'leri) */
+  onLoadAd: (
+    vastUrls: string[],
+    proxyConfig: ProxyConfig,
+    resolveOnServer: boolean,
+    verifyTrackers: boolean
+  ) => void;
 
   /** Yükleniyor durumu */
   isLoading: boolean;
@@ -22,17 +31,33 @@ interface ControlPanelProps {
 export function ControlPanel({ onLoadAd, isLoading }: ControlPanelProps) {
   // Form state
   const [vastUrl, setVastUrl] = useState('');
+  const [fallbackUrls, setFallbackUrls] = useState('');
   const [proxyType, setProxyType] = useState<ProxyType>('none');
   const [customProxyUrl, setCustomProxyUrl] = useState('');
+  const [resolveMode, setResolveMode] = useState<'client' | 'server'>('client');
+  const [trackerMode, setTrackerMode] = useState<'fire' | 'verify'>('fire');
 
   // Proxy options
   const proxyOptions = [
     { value: 'none', label: 'Proxy Yok (Direct)' },
+    { value: 'first-party', label: 'First-party Proxy (/api/proxy)' },
     { value: 'cors-anywhere', label: 'cors-anywhere (Public)' },
     { value: 'allorigins', label: 'allorigins (Public)' },
     { value: 'custom', label: 'Custom Proxy' },
   ];
 
+  // VAST çözümleme options
+  const resolveOptions = [
+    { value: 'client', label: 'Tarayıcıda (Client-side)' },
+    { value: 'server', label: 'Server\'da (/api/vast)' },
+  ];
+
+  // Tracker gönderim options
+  const trackerOptions = [
+    { value: 'fire', label: 'Fire-and-forget (no-cors, opaque)' },
+    { value: 'verify', label: 'Doğrula (CORS, status + redirect)' },
+  ];
+
   // Form submit
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -48,8 +73,17 @@ export function ControlPanel({ onLoadAd, isLoading }: ControlPanelProps) {
       customUrl: proxyType === 'custom' ? customProxyUrl : undefined,
     };
 
+    // Waterfall: ana URL + satır satır fallback URL'leri
+    const vastUrls = [
+      vastUrl.trim(),
+      ...fallbackUrls
+        .split('\n')
+        .map((url) => url.trim())
+        .filter((url) => url.length > 0),
+    ];
+
     // Callback'i çağır
-    onLoadAd(vastUrl, proxyConfig);
+    onLoadAd(vastUrls, proxyConfig, resolveMode === 'server', trackerMode === 'verify');
   };
 
   return (
@@ -66,6 +100,34 @@ export function ControlPanel({ onLoadAd, isLoading }: ControlPanelProps) {
           required
         />
 
+        {/* Fallback VAST URL'leri (waterfall) */}
+        <Textarea
+          label="Fallback VAST URL'leri (satır başına bir)"
+          placeholder="https://example.com/fallback-vast.xml"
+          rows={3}
+          value={fallbackUrls}
+          onChange={(e) => setFallbackUrls(e.target.value)}
+          disabled={isLoading}
+        />
+
+        {/* VAST Çözümleme Select */}
+        <Select
+          label="VAST Çözümleme"
+          options={resolveOptions}
+          value={resolveMode}
+          onChange={(e) => setResolveMode(e.target.value as 'client' | 'server')}
+          disabled={isLoading}
+        />
+
+        {/* Tracker Doğrulama Select */}
+        <Select
+          label="Tracker Doğrulama"
+          options={trackerOptions}
+          value={trackerMode}
+          onChange={(e) => setTrackerMode(e.target.value as 'fire' | 'verify')}
+          disabled={isLoading}
+        />
+
         {/* Proxy Type Select */}
         <Select
           label="Proxy Ayarı"
@@ -91,10 +153,16 @@ export function ControlPanel({ onLoadAd, isLoading }: ControlPanelProps) {
         {proxyType !== 'none' && (
           <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
             <p className="text-sm text-blue-800 dark:text-blue-200">
-              <strong>Proxy aktif:</strong> Tüm istekler {proxyType === 'cors-anywhere' && 'cors-anywhere.herokuapp.com'}
+              <strong>Proxy aktif:</strong> Tüm istekler {proxyType === 'first-party' && '/api/proxy (host allowlist\'li)'}
+              {proxyType === 'cors-anywhere' && 'cors-anywhere.herokuapp.com'}
               {proxyType === 'allorigins' && 'allorigins.win'}
               {proxyType === 'custom' && 'custom proxy'} üzerinden gönderilecek.
             </p>
+            {proxyType === 'first-party' && (
+              <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                Sadece VAST_PROXY_ALLOWED_HOSTS env'indeki host'lar izinlidir (diğerleri 403).
+              </p>
+            )}
           </div>
         )}
 
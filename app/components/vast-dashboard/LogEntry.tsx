@@ -12,9 +12,27 @@ interface LogEntryProps {
 }
 
 export function LogEntry({ log }: LogEntryProps) {
-  // Status badge variant
+  // Status badge variant (opaque: gönderildi ama cevap doğrulanmadı)
   const statusVariant =
-    log.status === 'success' ? 'success' : log.status === 'error' ? 'error' : 'gray';
+    log.status === 'success'
+      ? 'success'
+      : log.status === 'error'
+        ? 'error'
+        : log.status === 'opaque'
+          ? 'info'
+          : 'gray';
+
+  // Event badge variant (motor kayıtları, tıklama ve viewability ayrı renkte)
+  const eventVariant =
+    log.eventType === 'Waterfall' ||
+    log.eventType === 'MediaFile' ||
+    log.eventType === 'VastRequest' ||
+    log.eventType === 'AutoPause' ||
+    log.eventType === 'AutoResume'
+      ? 'warning'
+      : log.eventType === 'Click' || log.eventType === 'ViewableImpression'
+        ? 'success'
+        : 'info';
 
   // Status icon
   const statusIcon =
@@ -26,6 +44,14 @@ export function LogEntry({ log }: LogEntryProps) {
           clipRule="evenodd"
         />
       </svg>
+    ) : log.status === 'opaque' ? (
+      <svg className="h-4 w-4 text-blue-400" fill="currentColor" viewBox="0 0 20 20">
+        <path
+          fillRule="evenodd"
+          d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z"
+          clipRule="evenodd"
+        />
+      </svg>
     ) : log.status === 'error' ? (
       <svg className="h-4 w-4 text-red-500" fill="currentColor" viewBox="0 0 20 20">
         <path
@@ -56,11 +82,18 @@ export function LogEntry({ log }: LogEntryProps) {
     fractionalSecondDigits: 3,
   });
 
-  // Truncate URL for display
+  // Truncate URL for display (macro'lar expand edildiyse gerçek istek URL'i)
+  const displayUrl = log.expandedUrl || log.trackerUrl;
   const truncatedUrl =
-    log.trackerUrl.length > 60
-      ? log.trackerUrl.substring(0, 60) + '...'
-      : log.trackerUrl;
+    displayUrl.length > 60
+      ? displayUrl.substring(0, 60) + '...'
+      : displayUrl;
+
+  // Template, expand edilen URL'den farklıysa ayrıca göster
+  const hasMacros = !!log.expandedUrl && log.expandedUrl !== log.trackerUrl;
+
+  // Redirect zinciri (ilk URL zaten yukarıda gösteriliyor)
+  const redirects = log.redirectChain ? log.redirectChain.slice(1) : [];
 
   return (
     <div className="p-3 border-b border-gray-200 dark:border-gray-700 last:border-b-0 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
@@ -71,13 +104,25 @@ export function LogEntry({ log }: LogEntryProps) {
           <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
             {formattedTime}
           </span>
-          <Badge variant="info" size="sm">
+          <Badge variant={eventVariant} size="sm">
             {log.eventType}
           </Badge>
+          {log.transport && log.transport !== 'fetch' && (
+            <span className="text-xs text-gray-400 dark:text-gray-500 font-mono">
+              {log.transport}
+            </span>
+          )}
+          {log.elapsedMs !== undefined && (
+            <span className="text-xs text-gray-400 dark:text-gray-500 font-mono">
+              {log.elapsedMs}ms
+            </span>
+          )}
         </div>
         <Badge variant={statusVariant} size="sm">
-          {log.status === 'success' && `✓ ${log.statusCode || 200}`}
-          {log.status === 'error' && '✗ Error'}
+          {/* Engine kayıtlarında (Waterfall, MediaFile) status code yok */}
+          {log.status === 'success' && (log.statusCode ? `✓ ${log.statusCode}` : '✓ OK')}
+          {log.status === 'opaque' && '? Opaque'}
+          {log.status === 'error' && (log.statusCode ? `✗ ${log.statusCode}` : '✗ Error')}
           {log.status === 'pending' && '⏳ Pending'}
         </Badge>
       </div>
@@ -87,7 +132,29 @@ export function LogEntry({ log }: LogEntryProps) {
         <p className="text-xs text-gray-600 dark:text-gray-300 font-mono break-all">
           {truncatedUrl}
         </p>
-        {log.errorMessage && (
+        {hasMacros && (
+          <p
+            className="text-xs text-gray-400 dark:text-gray-500 font-mono break-all mt-1"
+            title={log.trackerUrl}
+          >
+            Template: {log.trackerUrl.length > 60 ? log.trackerUrl.substring(0, 60) + '...' : log.trackerUrl}
+          </p>
+        )}
+        {redirects.map((url, index) => (
+          <p
+            key={index}
+            className="text-xs text-gray-400 dark:text-gray-500 font-mono break-all mt-1"
+            title={url}
+          >
+            → {url.length > 60 ? url.substring(0, 60) + '...' : url}
+          </p>
+        ))}
+        {log.status === 'opaque' && (
+          <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
+            {log.errorMessage || 'Gönderildi, cevap okunamadı (status doğrulanmadı)'}
+          </p>
+        )}
+        {log.status !== 'opaque' && log.errorMessage && (
           <p className="text-xs text-red-600 dark:text-red-400 mt-1">
             Error: {log.errorMessage}
           </p>
@@ -1,7 +1,8 @@
 /**
  * OTS Badge - Opportunity to See Success Badge
  *
- * Reklam başarıyla tamamlandığında görünen başarı rozeti
+ * Reklam MRC viewability standardını karşıladığında görünen başarı rozeti
+ * (player'ın en az %50'si, 2 saniye kesintisiz görünür ve oynuyor)
  */
 
 export function OTSBadge() {
@@ -31,7 +32,7 @@ export function OTSBadge() {
             ✅ OTS BAŞARILI
           </h4>
           <p className="text-sm text-green-700 dark:text-green-300">
-            Reklam başarıyla tamamlandı (Opportunity to See)
+            Reklam izlenebilir olarak görüntülendi (MRC: %50 piksel, 2 saniye)
           </p>
         </div>
       </div>
@@ -24,6 +24,7 @@ interface TrafficLogProps {
 export function TrafficLog({ logs, otsAchieved, onClear }: TrafficLogProps) {
   // Log istatistikleri
   const successCount = logs.filter((l) => l.status === 'success').length;
+  const opaqueCount = logs.filter((l) => l.status === 'opaque').length;
   const errorCount = logs.filter((l) => l.status === 'error').length;
   const pendingCount = logs.filter((l) => l.status === 'pending').length;
 
@@ -64,6 +65,14 @@ export function TrafficLog({ logs, otsAchieved, onClear }: TrafficLogProps) {
                 {successCount}
               </span>
             </div>
+            {opaqueCount > 0 && (
+              <div className="flex items-center gap-1">
+                <span className="text-blue-600 dark:text-blue-400">Doğrulanmadı:</span>
+                <span className="font-semibold text-blue-700 dark:text-blue-300">
+                  {opaqueCount}
+                </span>
+              </div>
+            )}
             <div className="flex items-center gap-1">
               <span className="text-red-600 dark:text-red-400">Hata:</span>
               <span className="font-semibold text-red-700 dark:text-red-300">
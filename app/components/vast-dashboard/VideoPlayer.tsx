@@ -2,9 +2,13 @@
  * Video Player - VAST Reklam Oynatıcı
  *
  * Video element wrapper component
+ *
+ * Fullscreen route mode'da video sayfayı CSS ile kaplar (gerçek fullscreen değil).
+ * Gerçek fullscreen için wrapper Fullscreen API ile açılır; böylece skip/click
+ * katmanları da görünür kalır ve QuartileTracker Fullscreen/ExitFullscreen fire eder.
  */
 
-import { forwardRef } from 'react';
+import { forwardRef, useRef } from 'react';
 import { Card } from '../ui/Card';
 
 interface VideoPlayerProps {
@@ -22,11 +26,45 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
   ({ error, isLoading, fullscreen }, ref) => {
     console.log('[VideoPlayer] Rendering with:', { error, isLoading, fullscreen, hasRef: !!ref });
 
+    // Fullscreen route mode wrapper (Fullscreen API hedefi)
+    const wrapperRef = useRef<HTMLDivElement>(null);
+
+    // Wrapper'ı gerçek fullscreen'e al / çık (webkit prefix fallback'i ile)
+    const toggleFullscreen = () => {
+      const fullscreenDocument = document as Document & {
+        webkitFullscreenElement?: Element | null;
+        webkitExitFullscreen?: () => void;
+      };
+      const wrapper = wrapperRef.current as (HTMLDivElement & {
+        webkitRequestFullscreen?: () => void;
+      }) | null;
+
+      if (fullscreenDocument.fullscreenElement || fullscreenDocument.webkitFullscreenElement) {
+        if (fullscreenDocument.exitFullscreen) {
+          fullscreenDocument.exitFullscreen().catch((error) => {
+            console.error('[VideoPlayer] Exit fullscreen failed:', error);
+          });
+        } else {
+          fullscreenDocument.webkitExitFullscreen?.();
+        }
+        return;
+      }
+
+      if (wrapper?.requestFullscreen) {
+        // User gesture dışında veya allowfullscreen'siz iframe'de reddedilir
+        wrapper.requestFullscreen().catch((error) => {
+          console.error('[VideoPlayer] Fullscreen request failed:', error);
+        });
+      } else {
+        wrapper?.webkitRequestFullscreen?.();
+      }
+    };
+
     // Fullscreen mode: Sadece video (Card wrapper yok)
     if (fullscreen) {
       console.log('[VideoPlayer] Rendering fullscreen mode');
       return (
-        <div className="relative w-full h-full bg-black" style={{ zIndex: 9999 }}>
+        <div ref={wrapperRef} className="relative w-full h-full bg-black" style={{ zIndex: 9999 }}>
           {/* Video Element */}
           <video
             ref={ref}
@@ -44,6 +82,24 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
             }}
           />
 
+          {/* Fullscreen Toggle (Fullscreen API) */}
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            aria-label="Tam ekran"
+            className="absolute top-3 right-3 p-2 rounded-lg bg-black/60 text-white hover:bg-black/80 transition-colors"
+            style={{ zIndex: 10003 }}
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 8V4h4M20 8V4h-4M4 16v4h4M20 16v4h-4"
+              />
+            </svg>
+          </button>
+
           {/* Loading Overlay */}
           {isLoading && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/50">
@@ -8,30 +8,72 @@
  * ```tsx
  * const {
  *   videoRef,
+ *   companionSlotRef,
+ *   companions,
  *   logs,
  *   isLoading,
  *   error,
  *   otsAchieved,
+ *   waterfall,
+ *   adState,
+ *   breakState,
  *   loadAd,
+ *   scheduleAds,
  *   clearLogs,
  * } = useVastAd();
  *
  * // Video element'e ref ver
  * <video ref={videoRef} />
  *
+ * // Companion slot'una ref ver (opsiyonel)
+ * <div ref={companionSlotRef} />
+ *
  * // Reklam yükle
  * loadAd('https://example.com/vast.xml', { type: 'cors-anywhere' });
+ *
+ * // adState AdContainer'ın stateChange event'leriyle güncellenir
+ * adState?.isPlaying;
+ *
+ * // Waterfall (ilk oynatılabilir Ad bulunana kadar sırayla denenir)
+ * loadAd(['https://a.com/vast.xml', 'https://b.com/vast.xml']);
+ *
+ * // Wrapper zincirini server'da çözdür (proxy gerekmez)
+ * loadAd('https://example.com/vast.xml', { type: 'none' }, '/api/vast');
+ *
+ * // Tracker cevaplarını doğrula (gerçek status code, süre, redirect zinciri)
+ * loadAd('https://example.com/vast.xml', { type: 'first-party' }, undefined, true);
+ *
+ * // Content video etrafında ad break'ler (content URL'i açıkça verilir;
+ * // önceki loadAd video'nun src'sini temizlemiş olabilir)
+ * scheduleAds([
+ *   { offset: 'pre', vastUrl: 'https://example.com/preroll.xml' },
+ *   { offset: '50%', vastUrl: 'https://example.com/midroll.xml' },
+ * ], 'https://example.com/content.mp4');
  * ```
  */
 
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { AdContainer } from '~/lib/vast';
-import type { TrackingLog, ProxyConfig } from '~/lib/vast';
+import { AdContainer, AdScheduler } from '~/lib/vast';
+import type {
+  TrackingLog,
+  ProxyConfig,
+  CompanionAd,
+  WaterfallResult,
+  AdBreak,
+  AdSchedulerState,
+  AdContainerState,
+} from '~/lib/vast';
 
 interface UseVastAdReturn {
   /** Video element ref (video tag'ine verilmeli) */
   videoRef: React.RefObject<HTMLVideoElement | null>;
 
+  /** Companion slot ref (companion'ın render edileceği div'e verilmeli) */
+  companionSlotRef: React.RefObject<HTMLDivElement | null>;
+
+  /** Parse edilmiş companion reklamlar */
+  companions: CompanionAd[];
+
   /** Tracking log'ları */
   logs: TrackingLog[];
 
@@ -41,16 +83,54 @@ interface UseVastAdReturn {
   /** Hata mesajı (varsa) */
   error: string | null;
 
-  /** OTS (Opportunity to See) başarıyla gerçekleşti mi? */
+  /** OTS (Opportunity to See): Reklam MRC viewability standardını karşıladı mı? */
   otsAchieved: boolean;
 
-  /** Reklam yükle */
-  loadAd: (vastUrl: string, proxyConfig?: ProxyConfig) => Promise<void>;
+  /** Waterfall sonucu (hangi tag kazandı, öncekiler neden başarısız oldu) */
+  waterfall: WaterfallResult | null;
+
+  /** AdContainer state'i (oynatma, pod pozisyonu, viewability vb.) */
+  adState: AdContainerState | null;
+
+  /** Ad break state'i (scheduleAds ile başlatıldıysa) */
+  breakState: AdSchedulerState | null;
+
+  /**
+   * Reklam yükle (tek URL veya waterfall sırasıyla URL listesi)
+   * vastResolverUrl verilirse VAST server'da çözülür
+   * verifyTrackers true ise tracker cevapları doğrulanır (aksi halde opaque loglanır)
+   */
+  loadAd: (
+    vastUrl: string | string[],
+    proxyConfig?: ProxyConfig,
+    vastResolverUrl?: string,
+    verifyTrackers?: boolean
+  ) => Promise<void>;
+
+  /** Content video'sunu yükleyip etrafında ad break'leri başlat */
+  scheduleAds: (breaks: AdBreak[], contentSrc: string, proxyConfig?: ProxyConfig) => void;
 
   /** Log'ları temizle */
   clearLogs: () => void;
 }
 
+/**
+ * Hata mesajını kullanıcıya gösterilecek hale getir
+ * Empty VAST → 404
+ */
+function formatAdError(errorMsg: string): string {
+  if (
+    errorMsg.includes('No Ad element found') ||
+    errorMsg.includes('No ads VAST response') ||
+    errorMsg.includes('No ad available') ||
+    errorMsg.includes('No ad found')
+  ) {
+    return '404: No ad available in VAST response';
+  }
+
+  return errorMsg;
+}
+
 /**
  * VAST Ad management hook
  */
@@ -58,14 +138,27 @@ export function useVastAd(): UseVastAdReturn {
   // Video element ref
   const videoRef = useRef<HTMLVideoElement>(null);
 
+  // Companion slot ref
+  const companionSlotRef = useRef<HTMLDivElement>(null);
+
   // AdContainer instance ref
   const adContainerRef = useRef<AdContainer | null>(null);
 
+  // AdScheduler instance ref
+  const adSchedulerRef = useRef<AdScheduler | null>(null);
+
+  // isLoading'i set eden son loadAd çağrısı (yeni loadAd/scheduleAds ile artar)
+  const loadIdRef = useRef(0);
+
   // State
   const [logs, setLogs] = useState<TrackingLog[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [otsAchieved, setOtsAchieved] = useState(false);
+  const [companions, setCompanions] = useState<CompanionAd[]>([]);
+  const [waterfall, setWaterfall] = useState<WaterfallResult | null>(null);
+  const [adState, setAdState] = useState<AdContainerState | null>(null);
+  const [breakState, setBreakState] = useState<AdSchedulerState | null>(null);
 
   /**
    * Logger callback - AdContainer'dan gelen log'ları yakala
@@ -89,20 +182,30 @@ export function useVastAd(): UseVastAdReturn {
       }
     });
 
-    // OTS kontrolü (Complete event success)
-    if (log.eventType === 'Complete' && log.status === 'success') {
-      console.log('[useVastAd] OTS achieved! 🎉');
-      setOtsAchieved(true);
-    }
+  }, []);
+
+  /**
+   * OTS: Reklam MRC viewability standardını karşıladı (%50 piksel, 2 saniye)
+   */
+  const handleViewableImpression = useCallback(() => {
+    console.log('[useVastAd] OTS achieved! 🎉');
+    setOtsAchieved(true);
   }, []);
 
   /**
    * Reklam yükle
    */
   const loadAd = useCallback(
-    async (vastUrl: string, proxyConfig?: ProxyConfig) => {
+    async (
+      vastUrl: string | string[],
+      proxyConfig?: ProxyConfig,
+      vastResolverUrl?: string,
+      verifyTrackers?: boolean
+    ) => {
       console.log('[useVastAd] Loading ad:', vastUrl);
 
+      const vastUrls = Array.isArray(vastUrl) ? vastUrl : [vastUrl];
+
       // Video element hazır değilse hata ver
       if (!videoRef.current) {
         const errorMsg = 'Video element not ready';
@@ -117,25 +220,56 @@ export function useVastAd(): UseVastAdReturn {
         adContainerRef.current.destroy();
         adContainerRef.current = null;
       }
+      if (adSchedulerRef.current) {
+        adSchedulerRef.current.destroy();
+        adSchedulerRef.current = null;
+        setBreakState(null);
+      }
 
       // State reset
       setLogs([]);
       setError(null);
       setOtsAchieved(false);
+      setCompanions([]);
+      setWaterfall(null);
+      setAdState(null);
       setIsLoading(true);
+      const loadId = ++loadIdRef.current;
+
+      let adContainer: AdContainer | null = null;
 
       try {
-        // Yeni AdContainer oluştur
-        const adContainer = new AdContainer({
-          vastUrl,
+        // Yeni AdContainer oluştur (init sürerken de destroy edilebilsin diye hemen ref'e kaydet)
+        adContainer = new AdContainer({
+          vastUrls,
           videoElement: videoRef.current,
           loggerCallback,
           proxyConfig,
+          vastResolverUrl,
+          verifyTrackers,
+          // Dashboard slot'u boyut kısıtlaması olmadan ilk companion'ı gösterir
+          companionSlots: companionSlotRef.current
+            ? [{ element: companionSlotRef.current }]
+            : undefined,
           maxWrapperDepth: 3,
           quartileTolerance: 0.5,
           autoPlay: true,
           debug: true, // Debug mode açık (production'da false yapılabilir)
         });
+        adContainerRef.current = adContainer;
+
+        // React state'i AdContainer event'lerinden beslenir (destroy sonrası event gelmez)
+        const container = adContainer;
+        container.on('stateChange', ({ state }) => {
+          setAdState(state);
+          setWaterfall(state.waterfall ?? null);
+        });
+        container.on('loaded', () => setCompanions(container.getCompanions()));
+        container.on('viewableImpression', handleViewableImpression);
+        container.on('error', ({ message }) => {
+          console.error('[useVastAd] Ad error:', message);
+          setError(formatAdError(message));
+        });
 
         // Initialize et (VAST parse + video load)
         await adContainer.init();
@@ -145,35 +279,88 @@ export function useVastAd(): UseVastAdReturn {
           throw new Error('No ad found in VAST response');
         }
 
-        // Başarılı, ref'e kaydet
-        adContainerRef.current = adContainer;
-
         console.log('[useVastAd] Ad loaded successfully');
       } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : 'Failed to load ad';
-        console.error('[useVastAd] Load error:', errorMsg);
-
-        // Empty VAST → 404 handling
-        if (
-          errorMsg.includes('No Ad element found') ||
-          errorMsg.includes('No ad available') ||
-          errorMsg.includes('No ad found')
-        ) {
-          setError('404: No ad available in VAST response');
+        // Yeni loadAd, scheduleAds veya unmount ile iptal edildi: error state'i yeni yüklemeye ait
+        if (adContainer?.isDestroyed()) {
+          console.log('[useVastAd] Load aborted');
         } else {
-          setError(errorMsg);
-        }
+          const errorMsg = err instanceof Error ? err.message : 'Failed to load ad';
+          console.error('[useVastAd] Load error:', errorMsg);
+          setError(formatAdError(errorMsg));
 
-        // Cleanup
-        if (adContainerRef.current) {
-          adContainerRef.current.destroy();
-          adContainerRef.current = null;
+          // Cleanup
+          if (adContainerRef.current === adContainer) {
+            adContainer?.destroy();
+            adContainerRef.current = null;
+          }
         }
-      } finally {
+      }
+
+      // Sadece isLoading'i bu çağrı set ettiyse temizle (yeni loadAd kendi yüklemesini yönetir)
+      if (loadIdRef.current === loadId) {
         setIsLoading(false);
       }
     },
-    [loggerCallback]
+    [loggerCallback, handleViewableImpression]
+  );
+
+  /**
+   * Content etrafında ad break'leri başlat
+   * contentSrc açıkça verilir: önceki loadAd'in AdContainer'ı video'nun src'sini temizler
+   */
+  const scheduleAds = useCallback(
+    (breaks: AdBreak[], contentSrc: string, proxyConfig?: ProxyConfig) => {
+      console.log('[useVastAd] Scheduling ad breaks:', breaks);
+
+      // Video element hazır değilse hata ver
+      if (!videoRef.current) {
+        const errorMsg = 'Video element not ready';
+        console.error('[useVastAd] Error:', errorMsg);
+        setError(errorMsg);
+        return;
+      }
+
+      // Önceki AdContainer/AdScheduler'ı temizle
+      if (adContainerRef.current) {
+        adContainerRef.current.destroy();
+        adContainerRef.current = null;
+      }
+      if (adSchedulerRef.current) {
+        adSchedulerRef.current.destroy();
+        adSchedulerRef.current = null;
+      }
+
+      // State reset
+      setLogs([]);
+      setError(null);
+      setOtsAchieved(false);
+      setCompanions([]);
+      setWaterfall(null);
+      setAdState(null);
+
+      // Devam eden loadAd iptal edildi; isLoading artık ona ait değil
+      loadIdRef.current++;
+      setIsLoading(false);
+
+      const adScheduler = new AdScheduler({
+        contentElement: videoRef.current,
+        contentSrc,
+        breaks,
+        loggerCallback,
+        proxyConfig,
+        companionSlots: companionSlotRef.current
+          ? [{ element: companionSlotRef.current }]
+          : undefined,
+        onStateChange: setBreakState,
+        onViewableImpression: handleViewableImpression,
+        debug: true,
+      });
+
+      adSchedulerRef.current = adScheduler;
+      adScheduler.start();
+    },
+    [loggerCallback, handleViewableImpression]
   );
 
   /**
@@ -196,16 +383,26 @@ export function useVastAd(): UseVastAdReturn {
         adContainerRef.current.destroy();
         adContainerRef.current = null;
       }
+      if (adSchedulerRef.current) {
+        adSchedulerRef.current.destroy();
+        adSchedulerRef.current = null;
+      }
     };
   }, []);
 
   return {
     videoRef,
+    companionSlotRef,
+    companions,
     logs,
     isLoading,
     error,
     otsAchieved,
+    waterfall,
+    adState,
+    breakState,
     loadAd,
+    scheduleAds,
     clearLogs,
   };
 }
@@ -0,0 +1,174 @@
+/**
+ * Container Tag - Embeddable VAST Ad Tag (Main Class)
+ *
+ * Publisher sayfalarında React olmadan çalışan giriş noktası.
+ * Container div'ini bulur, <video> elementini oluşturur ve
+ * AdContainer'ı bu element ile çalıştırır.
+ *
+ * KULLANIM:
+ * ```html
+ * <div id="ad-slot-1"></div>
+ * <script src="container-tag.umd.js"></script>
+ * <script>
+ *   ContainerTag.init({
+ *     vastUrl: 'https://ad-server.com/vast.xml',
+ *     containerId: 'ad-slot-1',
+ *     onComplete: () => console.log('done'),
+ *     onError: (err) => console.error(err),
+ *   });
+ * </script>
+ * ```
+ */
+
+import { AdContainer } from '../vast';
+import type { TrackingLog } from '../vast';
+import { DomManager } from './DomManager';
+import type { ContainerTagConfig } from './types';
+
+export class ContainerTag {
+  // Konfigürasyon
+  private config: ContainerTagConfig;
+
+  // Bileşenler
+  private domManager: DomManager;
+  private adContainer: AdContainer | null = null;
+  private videoElement: HTMLVideoElement | null = null;
+
+  // Destroy edildi mi? (async load sırasında kontrol için)
+  private isDestroyed: boolean = false;
+
+  // onError bir kez çağrılır (init reject'i ve AdContainer error event'i aynı hata)
+  private hasReportedError: boolean = false;
+
+  constructor(config: ContainerTagConfig) {
+    this.config = {
+      ...config,
+      autoPlay: config.autoPlay !== false, // Default true
+      debug: config.debug || false,
+    };
+
+    this.domManager = new DomManager();
+  }
+
+  /**
+   * ContainerTag oluştur ve reklamı yüklemeye başla
+   *
+   * @param config - ContainerTag konfigürasyonu
+   * @returns ContainerTag instance'ı (destroy için)
+   */
+  static init(config: ContainerTagConfig): ContainerTag {
+    const containerTag = new ContainerTag(config);
+    containerTag.load();
+    return containerTag;
+  }
+
+  /**
+   * Container'ı bul, video oluştur, VAST'ı yükle ve oynat
+   * Hatalar onError callback'ine iletilir (reject edilmez)
+   */
+  async load(): Promise<void> {
+    this.log('[ContainerTag] Loading...');
+
+    try {
+      // 1. Container ve video element
+      this.domManager.findContainer(this.config.containerId);
+      this.videoElement = this.domManager.createVideoElement();
+
+      // 2. AdContainer oluştur
+      this.adContainer = new AdContainer({
+        vastUrl: this.config.vastUrl,
+        videoElement: this.videoElement,
+        loggerCallback: (log) => this.handleTrackingLog(log),
+        proxyConfig: this.config.proxyConfig,
+        transport: this.config.transport,
+        trackerTransport: this.config.trackerTransport,
+        verifyTrackers: this.config.verifyTrackers,
+        macros: this.config.macros,
+        autoPlay: this.config.autoPlay,
+        autoPause: this.config.autoPause,
+        timeouts: this.config.timeouts,
+        debug: this.config.debug,
+      });
+
+      // Pod bitişi ve oynatma sırasındaki hatalar (init sonrası da gelebilir)
+      this.adContainer.on('completed', () => this.handleCompleted());
+      this.adContainer.on('error', ({ error }) => this.handleError(error));
+
+      // 3. VAST parse + video load (+ autoPlay)
+      await this.adContainer.init();
+
+      this.log('[ContainerTag] Ad loaded');
+    } catch (error) {
+      if (this.isDestroyed) {
+        return;
+      }
+
+      this.handleError(error);
+    }
+  }
+
+  /**
+   * ContainerTag'i destroy et
+   * - AdContainer'ı temizle
+   * - Oluşturulan video elementi kaldır
+   */
+  destroy(): void {
+    this.log('[ContainerTag] Destroying...');
+    this.isDestroyed = true;
+
+    if (this.adContainer) {
+      this.adContainer.destroy();
+      this.adContainer = null;
+    }
+
+    this.domManager.destroy();
+    this.videoElement = null;
+  }
+
+  // ==================== PRIVATE HELPER METHODS ====================
+
+  /**
+   * Reklam (pod) bittiğinde onComplete'i çağır
+   */
+  private handleCompleted(): void {
+    this.log('[ContainerTag] Ad completed');
+    this.config.onComplete?.();
+  }
+
+  /**
+   * Hatayı onError'a bir kez ilet
+   */
+  private handleError(error: unknown): void {
+    if (this.hasReportedError) {
+      return;
+    }
+    this.hasReportedError = true;
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.log(`[ContainerTag] ERROR: ${err.message}`, true);
+    this.config.onError?.(err);
+  }
+
+  /**
+   * Tracker log'larını debug mode'da console'a yaz
+   */
+  private handleTrackingLog(log: TrackingLog): void {
+    if (log.status !== 'pending') {
+      this.log(`[ContainerTag] ${log.eventType} tracker ${log.status}: ${log.expandedUrl || log.trackerUrl}`);
+    }
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.config.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
@@ -0,0 +1,82 @@
+/**
+ * DOM Manager - Container ve Video Element Yönetimi
+ *
+ * Publisher sayfasındaki reklam alanını (div) bulur ve içine
+ * reklam için kullanılacak <video> elementini oluşturur.
+ *
+ * ÖZELLIKLER:
+ * - Container lookup (ID ile)
+ * - Video element oluşturma ve styling
+ * - Mobil uyumlu attribute'lar (playsinline, muted autoplay)
+ * - Temizlik (oluşturulan elementleri kaldırma)
+ */
+
+export class DomManager {
+  // Reklam alanı (publisher'ın div'i)
+  private container: HTMLElement | null = null;
+
+  // Oluşturulan video element
+  private videoElement: HTMLVideoElement | null = null;
+
+  /**
+   * Container div'ini ID ile bul
+   *
+   * @param containerId - Publisher'ın verdiği div ID'si
+   * @returns Container elementi
+   */
+  findContainer(containerId: string): HTMLElement {
+    const container = document.getElementById(containerId);
+
+    if (!container) {
+      throw new Error(`Container element not found: #${containerId}`);
+    }
+
+    this.container = container;
+    return container;
+  }
+
+  /**
+   * Container içine video element oluştur ve ekle
+   *
+   * Autoplay policy'leri nedeniyle video muted başlar.
+   */
+  createVideoElement(): HTMLVideoElement {
+    if (!this.container) {
+      throw new Error('Container not found, call findContainer() first');
+    }
+
+    const video = document.createElement('video');
+
+    // Attribute'lar
+    video.controls = true;
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'metadata';
+    video.setAttribute('playsinline', '');
+    video.setAttribute('webkit-playsinline', '');
+
+    // Styling
+    video.style.width = '100%';
+    video.style.height = 'auto';
+    video.style.display = 'block';
+    video.style.backgroundColor = 'black';
+
+    this.container.appendChild(video);
+    this.videoElement = video;
+
+    return video;
+  }
+
+  /**
+   * Oluşturulan elementleri DOM'dan kaldır
+   */
+  destroy(): void {
+    if (this.videoElement && this.videoElement.parentNode) {
+      this.videoElement.parentNode.removeChild(this.videoElement);
+    }
+
+    this.videoElement = null;
+    this.container = null;
+  }
+
+}
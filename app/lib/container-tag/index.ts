@@ -0,0 +1,30 @@
+/**
+ * Container Tag - UMD Entry Point
+ *
+ * `npm run build:lib` bu dosyayı `dist/container-tag.umd.js` olarak bundle eder.
+ * Script tag ile yüklendiğinde global `ContainerTag` objesi oluşur.
+ *
+ * KULLANIM:
+ * ```html
+ * <script src="container-tag.umd.js"></script>
+ * <script>
+ *   ContainerTag.init({ vastUrl: '...', containerId: 'ad-slot-1' });
+ * </script>
+ * ```
+ */
+
+import { ContainerTag } from './ContainerTag';
+import type { ContainerTagConfig } from './types';
+
+/**
+ * Reklamı başlat
+ *
+ * @param config - ContainerTag konfigürasyonu
+ * @returns ContainerTag instance'ı (destroy() ile temizlenebilir)
+ */
+export function init(config: ContainerTagConfig): ContainerTag {
+  return ContainerTag.init(config);
+}
+
+export { ContainerTag };
+export type { ContainerTagConfig };
@@ -0,0 +1,59 @@
+/**
+ * Container Tag - Type Definitions
+ *
+ * Publisher sayfalarına script tag ile embed edilen ContainerTag'in
+ * konfigürasyon tipleri. React'a bağımlı değildir.
+ */
+
+import type {
+  ProxyConfig,
+  MacroValue,
+  AutoPauseConfig,
+  TimeoutConfig,
+  Transport,
+  TrackerTransport,
+} from '../vast';
+
+/**
+ * ContainerTag.init() parametreleri
+ */
+export interface ContainerTagConfig {
+  /** VAST XML URL'i */
+  vastUrl: string;
+
+  /** Reklamın gösterileceği div'in ID'si */
+  containerId: string;
+
+  /** Proxy konfigürasyonu (default: { type: 'none' }) */
+  proxyConfig?: ProxyConfig;
+
+  /** VAST ve tracker request'lerini gönderen transport (verilirse proxyConfig kullanılmaz) */
+  transport?: Transport;
+
+  /** Tracker gönderim yöntemi: 'fetch' | 'keepalive' | 'beacon' | 'image' (default: 'keepalive') */
+  trackerTransport?: TrackerTransport;
+
+  /** Tracker doğrulama modu: gerçek status code, süre ve redirect zinciri loglanır (default: false) */
+  verifyTrackers?: boolean;
+
+  /** Publisher'a özel macro'lar */
+  macros?: Record<string, MacroValue>;
+
+  /** Otomatik oynatma (default: true) */
+  autoPlay?: boolean;
+
+  /** Player görünmezken / tab gizliyken reklamı durdur (default: kapalı) */
+  autoPause?: AutoPauseConfig;
+
+  /** VAST request, wrapper zinciri ve MediaFile yükleme timeout'ları (ms) */
+  timeouts?: TimeoutConfig;
+
+  /** Debug mode (console'a detaylı log yazsın mı) */
+  debug?: boolean;
+
+  /** Reklam tamamlandığında çağrılır */
+  onComplete?: () => void;
+
+  /** Hata oluştuğunda çağrılır */
+  onError?: (error: Error) => void;
+}
@@ -19,28 +19,106 @@
  *
  * LIFECYCLE:
  * 1. Constructor: Config al, bileşenleri oluştur
- * 2. init(): VAST parse et, video src'yi set et
+ * 2. init(): Waterfall'daki tag'leri sırayla dene, ilk oynatılabilir Ad'i yükle
+ *    (NonLinear-only ise overlay göster)
  * 3. play(): Video oynat, tracking başlat
- * 4. destroy(): Temizlik yap, event listener'ları kaldır
+ * 4. ended: Pod'da sıradaki Ad varsa yükle ve oynat
+ * 5. destroy(): Bekleyen fetch/tracker/media beklemesini iptal et (init() AbortError ile
+ *    reject olur), event listener'ları ve companion'ları kaldır. Sonrasında callback çağrılmaz.
+ *
+ * AD POD:
+ * - sequence attribute'u olan Ad'ler sırayla, arka arkaya oynatılır
+ * - sequence'sız Ad'ler fallback havuzudur: bir Ad yüklenemezse sıradaki denenir
+ * - Her Ad'in kendi impression, quartile ve error tracking'i vardır
+ *
+ * WATERFALL:
+ * - vastUrls ile sıralı VAST tag listesi verilebilir (tag bazında timeout ile)
+ * - Bir tag oynatılabilir Ad vermezse sıradaki denenir
+ * - Sonuç getWaterfallResult() ile okunur, her deneme Traffic Log'a düşer
+ *
+ * SERVER-SIDE ÇÖZÜMLEME:
+ * - vastResolverUrl ('/api/vast') verilirse wrapper zinciri server'da çözülür
+ * - Tracker'lar ve MediaFile'lar yine tarayıcıdan yüklenir
  */
 
 import { VastParser } from './VastParser';
 import { TrackingManager } from './TrackingManager';
 import { QuartileTracker } from './QuartileTracker';
+import { MacroExpander } from './MacroExpander';
+import { CompanionRenderer } from './CompanionRenderer';
+import { OverlayRenderer } from './OverlayRenderer';
+import { SkipController } from './SkipController';
+import { ClickThroughController } from './ClickThroughController';
+import { ViewabilityTracker } from './ViewabilityTracker';
+import { MediaFileSelector } from './MediaFileSelector';
+import { createMediaSourceAdapters } from './MediaSourceAdapters';
+import { AdEventEmitter } from './AdEventEmitter';
+import { FetchTransport } from './Transport';
+import { toHttpUrl } from './ResourceRenderer';
 import type {
   AdContainerConfig,
   AdContainerState,
   ParsedVast,
+  ParsedVastResponse,
+  CompanionAd,
+  MacroContext,
+  VastError,
+  WaterfallTag,
+  WaterfallAttempt,
+  WaterfallResult,
+  ViewabilityState,
+  EngineLogType,
+  MediaFile,
+  MediaFileScore,
+  MediaSourceAdapter,
+  TimeoutConfig,
+  VastRequestTiming,
+  VastEventType,
+  QuartileEventType,
+  AdContainerEventMap,
+  AdContainerEventType,
+  AdContainerEventListener,
+  Transport,
 } from './types';
+import { VastErrorCode } from './types';
+
+/**
+ * Default timeout'lar (ms)
+ */
+const DEFAULT_TIMEOUTS: Required<TimeoutConfig> = {
+  vastRequest: 5000,
+  wrapperChain: 10000,
+  mediaLoad: 10000,
+};
+
+/**
+ * Oynatma sırasında takılan video'nun fallback'ten önce beklenme süresi (ms)
+ */
+const MEDIA_STALL_TIMEOUT = 10000;
 
 export class AdContainer {
   // Konfigürasyon
   private config: AdContainerConfig;
+  private timeouts: Required<TimeoutConfig>;
+
+  // destroy() ile tetiklenir: bekleyen fetch'ler, tracker'lar ve media beklemesi iptal edilir
+  private abortController: AbortController = new AbortController();
+
+  // Lifecycle event'leri (on/off/once)
+  private events: AdEventEmitter<AdContainerEventMap> = new AdEventEmitter();
 
   // Bileşenler
+  private transport: Transport;
   private vastParser: VastParser;
+  private macroExpander: MacroExpander;
+  private mediaFileSelector: MediaFileSelector;
   private trackingManager: TrackingManager;
   private quartileTracker: QuartileTracker | null = null;
+  private companionRenderer: CompanionRenderer | null = null;
+  private overlayRenderer: OverlayRenderer | null = null;
+  private skipController: SkipController | null = null;
+  private clickThroughController: ClickThroughController | null = null;
+  private viewabilityTracker: ViewabilityTracker | null = null;
 
   // State
   private state: AdContainerState = {
@@ -53,96 +131,175 @@ export class AdContainer {
   // Video element
   private videoElement: HTMLVideoElement;
 
-  // Parse edilmiş VAST data
+  // Şu an yüklü Ad'in parse edilmiş VAST data'sı
   private parsedVast: ParsedVast | null = null;
 
+  // Ad pod kuyruğu (sequence sıralı) ve fallback havuzu (sequence'sız Ad'ler)
+  private adQueue: ParsedVast[] = [];
+  private fallbackPool: ParsedVast[] = [];
+  private podIndex: number = -1;
+
+  // Error URI'leri zaten fire edilmiş hatalar (çift ping'i önler)
+  private reportedErrors: WeakSet<object> = new WeakSet();
+
+  // Oynatılan MediaFile URL'i ([ASSETURI] macro'su için)
+  private currentAssetUri: string | undefined;
+
+  // Denenen waterfall tag'inin VAST request süreleri ve MediaFile yükleme süresi
+  private vastRequestTimings: VastRequestTiming[] = [];
+  private mediaLoadMs: number | undefined;
+
+  // Sıralı MediaFile adayları ve oynatılan adayın index'i (fallback için)
+  private mediaCandidates: MediaFileScore[] = [];
+  private mediaIndex: number = -1;
+
+  // Oynatılan MediaFile'ı video elementine bağlayan adapter (HLS/DASH/progressive)
+  private activeMediaSource: MediaSourceAdapter | null = null;
+
+  // Oynatma izleme (decode hatası / takılma -> MediaFile fallback)
+  private isSwitchingMedia: boolean = false;
+  private stallTimer: ReturnType<typeof setTimeout> | null = null;
+  private boundPlaybackHandlers: {
+    error: () => void;
+    stall: () => void;
+    progress: () => void;
+  };
+
+  // NonLinear-only reklam mı? (video element content'e ait, dokunulmaz)
+  private isOverlayMode: boolean = false;
+
+  // Video ended handler (pod ilerletme, cleanup için saklıyoruz)
+  private boundHandleEnded: () => void;
+
   constructor(config: AdContainerConfig) {
+    // Callback'ler destroy sonrası çağrılmaz (eski instance yeni reklamın state'ine dokunamaz)
     this.config = {
       ...config,
+      loggerCallback: (log) => {
+        if (!this.isDestroyed()) {
+          config.loggerCallback(log);
+        }
+      },
       maxWrapperDepth: config.maxWrapperDepth || 3,
       quartileTolerance: config.quartileTolerance || 0.5,
       autoPlay: config.autoPlay !== false, // Default true
       debug: config.debug || false,
     };
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...config.timeouts };
+
+    // Config callback'leri lifecycle event'lerine bağlanır
+    const { onComplete, onError, onSkip, onViewableImpression } = config;
+    if (onComplete) this.on('completed', () => onComplete());
+    if (onError) this.on('error', ({ error }) => onError(error));
+    if (onSkip) this.on('skipped', () => onSkip());
+    if (onViewableImpression) this.on('viewableImpression', () => onViewableImpression());
 
     this.videoElement = config.videoElement;
+    this.boundHandleEnded = this.handleEnded.bind(this);
+    this.boundPlaybackHandlers = {
+      error: this.handlePlaybackError.bind(this),
+      stall: this.handlePlaybackStall.bind(this),
+      progress: this.clearStallTimer.bind(this),
+    };
+
+    // Transport oluştur (VAST ve tracker request'leri; publisher kendi transport'unu verebilir)
+    this.transport =
+      config.transport ?? new FetchTransport({ proxyConfig: config.proxyConfig, debug: config.debug });
 
     // VastParser oluştur
     this.vastParser = new VastParser({
-      proxyConfig: config.proxyConfig,
+      transport: this.transport,
       maxWrapperDepth: this.config.maxWrapperDepth,
+      requestTimeout: this.timeouts.vastRequest,
+      onRequest: (timing) => this.handleVastRequest(timing),
+      resolverUrl: config.vastResolverUrl,
+      debug: this.config.debug,
+    });
+
+    // MacroExpander oluştur (built-in + publisher macro'ları)
+    this.macroExpander = new MacroExpander({ macros: config.macros });
+
+    // MediaFileSelector oluştur (player boyutu + bant genişliği + publisher override)
+    this.mediaFileSelector = new MediaFileSelector({
+      ...config.mediaFileSelection,
+      videoElement: this.videoElement,
+      adapters: createMediaSourceAdapters(config.mediaSourceAdapters),
+      signal: this.abortController.signal,
       debug: this.config.debug,
     });
 
     // TrackingManager oluştur
     this.trackingManager = new TrackingManager({
-      loggerCallback: config.loggerCallback,
-      proxyConfig: config.proxyConfig,
+      loggerCallback: this.config.loggerCallback,
+      signal: this.abortController.signal,
+      transport: this.transport,
+      trackerTransport: config.trackerTransport,
+      verifyTrackers: config.verifyTrackers,
+      macroExpander: this.macroExpander,
+      getMacroContext: () => this.getMacroContext(),
       debug: this.config.debug,
     });
 
+    // CompanionRenderer oluştur (publisher slot verdiyse)
+    if (config.companionSlots && config.companionSlots.length > 0) {
+      this.companionRenderer = new CompanionRenderer({
+        slots: config.companionSlots,
+        onFire: (eventType, urls) => {
+          this.trackingManager.fireTrackers(eventType, urls);
+        },
+        debug: this.config.debug,
+      });
+    }
+
     this.log('[AdContainer] Created');
   }
 
   /**
    * AdContainer'ı initialize et
-   * - VAST XML'i parse et
-   * - MediaFile'ı seç ve video src'ye set et
-   * - Impressions fire et
+   * - Waterfall'daki her VAST tag'ini sırayla dene
+   * - Tag'in tüm Ad'lerini parse et, pod kuyruğunu oluştur
+   * - İlk oynatılabilir Ad'i yükle (bulunana kadar sonraki tag'e geç)
    */
   async init(): Promise<void> {
     this.log('[AdContainer] Initializing...');
 
     try {
-      // 1. VAST parse et
-      this.parsedVast = await this.vastParser.parse(this.config.vastUrl);
-      this.log(`[AdContainer] VAST parsed successfully`);
+      const tags = this.getWaterfallTags();
+      const attempts: WaterfallAttempt[] = [];
+      let lastError: unknown = null;
 
-      // 2. MediaFile var mı kontrol et
-      if (!this.parsedVast.mediaFiles || this.parsedVast.mediaFiles.length === 0) {
-        throw new Error('No MediaFiles found in VAST');
-      }
+      for (let index = 0; index < tags.length; index++) {
+        this.throwIfDestroyed();
 
-      // 3. En uygun MediaFile'ı seç (VastParser zaten priority sıralaması yapmış)
-      const selectedMedia = this.parsedVast.mediaFiles[0];
-      this.log(`[AdContainer] Selected MediaFile: ${selectedMedia.type} - ${selectedMedia.url}`);
+        const attempt = await this.tryWaterfallTag(tags[index], index);
+        attempts.push(attempt.result);
 
-      // 4. Video src'yi set et
-      this.videoElement.src = selectedMedia.url;
+        if (attempt.result.status === 'won') {
+          this.setState({ waterfall: { winner: attempt.result, attempts } });
+          this.log(`[AdContainer] Waterfall won by tag #${index + 1}: ${attempt.result.url}`);
+          break;
+        }
 
-      // 5. Video metadata yüklenene kadar bekle
-      await this.waitForVideoReady();
+        lastError = attempt.error;
+      }
 
-      // 6. QuartileTracker oluştur ve initialize et
-      this.quartileTracker = new QuartileTracker({
-        videoElement: this.videoElement,
-        trackingUrls: this.parsedVast.tracking,
-        onFire: (eventType, urls) => {
-          this.trackingManager.fireTrackers(eventType, urls);
-        },
-        tolerance: this.config.quartileTolerance,
-      });
-      this.quartileTracker.init();
-
-      // 7. State güncelle
-      this.state = {
-        isReady: true,
-        hasAd: true,
-        isPlaying: false,
-        hasError: false,
-        parsedVast: this.parsedVast,
-      };
+      if (!this.state.waterfall) {
+        this.setState({ waterfall: { attempts } });
+        throw lastError ?? this.createError(VastErrorCode.UNDEFINED_ERROR, 'No VAST tags to try');
+      }
 
       this.log('[AdContainer] Initialization complete');
 
-      // 8. Impressions fire et (reklam gösterildi)
-      await this.trackingManager.fireImpressions(this.parsedVast.impressions);
-
-      // 9. Auto-play etkinse oynat
+      // Auto-play etkinse oynat
       if (this.config.autoPlay) {
         this.play();
       }
     } catch (error) {
+      // destroy() ile iptal edildiyse hata raporlanmaz, AbortError ile reject olur
+      if (this.isDestroyed()) {
+        throw this.abortController.signal.reason;
+      }
+
       this.handleError(error);
       throw error;
     }
@@ -157,43 +314,56 @@ export class AdContainer {
       return;
     }
 
+    // Overlay modunda video content'e ait, oynatma publisher'da
+    if (this.isOverlayMode) {
+      return;
+    }
+
     this.log('[AdContainer] Playing ad');
 
     this.videoElement
       .play()
       .then(() => {
-        this.state.isPlaying = true;
+        this.setState({ isPlaying: true });
         this.log('[AdContainer] Playback started');
       })
       .catch((error) => {
         this.log(`[AdContainer] Playback failed: ${error.message}`, true);
-        this.handleError(error);
+        this.handleError(
+          this.createError(VastErrorCode.GENERAL_LINEAR_ERROR, 'Playback failed', error.message)
+        );
       });
   }
 
   /**
    * AdContainer'ı destroy et ve temizle
-   * - QuartileTracker'ı durdur
+   * - Yüklü Ad'i kaldır (tracker, companion, overlay)
    * - Video src'yi temizle
    * - State'i reset et
    */
   destroy(): void {
     this.log('[AdContainer] Destroying...');
 
-    // QuartileTracker'ı temizle
-    if (this.quartileTracker) {
-      this.quartileTracker.destroy();
-      this.quartileTracker = null;
+    // Bekleyen işleri iptal et (init() AbortError ile reject olur, callback'ler susar)
+    if (!this.isDestroyed()) {
+      const abortError = new Error('AdContainer destroyed');
+      abortError.name = 'AbortError';
+      this.abortController.abort(abortError);
     }
+    this.events.removeAllListeners();
 
-    // Video'yu durdur ve temizle
-    try {
-      this.videoElement.pause();
-      this.videoElement.src = '';
-      this.videoElement.load(); // Reset video element
-    } catch (error) {
-      // Video cleanup hatası önemli değil
-      this.log(`[AdContainer] Video cleanup warning: ${error}`, false);
+    this.unloadAd();
+
+    // Video'yu durdur ve temizle (overlay modunda video content'e ait)
+    if (!this.isOverlayMode) {
+      try {
+        this.videoElement.pause();
+        this.videoElement.src = '';
+        this.videoElement.load(); // Reset video element
+      } catch (error) {
+        // Video cleanup hatası önemli değil
+        this.log(`[AdContainer] Video cleanup warning: ${error}`, false);
+      }
     }
 
     // State reset
@@ -204,11 +374,55 @@ export class AdContainer {
       hasError: false,
     };
 
-    this.parsedVast = null;
+    this.adQueue = [];
+    this.fallbackPool = [];
+    this.podIndex = -1;
+    this.isOverlayMode = false;
 
     this.log('[AdContainer] Destroyed');
   }
 
+  /**
+   * Lifecycle event'ini dinle
+   *
+   * @example
+   * adContainer.on('quartile', ({ quartile }) => console.log(quartile));
+   * @returns Listener'ı kaldıran fonksiyon
+   */
+  on<K extends AdContainerEventType>(type: K, listener: AdContainerEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /**
+   * Lifecycle event'ini bir kez dinle
+   *
+   * @returns Listener'ı kaldıran fonksiyon
+   */
+  once<K extends AdContainerEventType>(type: K, listener: AdContainerEventListener<K>): () => void {
+    return this.events.once(type, listener);
+  }
+
+  /**
+   * Listener'ı kaldır
+   */
+  off<K extends AdContainerEventType>(type: K, listener: AdContainerEventListener<K>): void {
+    this.events.off(type, listener);
+  }
+
+  /**
+   * Güncel state (kopya)
+   */
+  getState(): AdContainerState {
+    return { ...this.state };
+  }
+
+  /**
+   * destroy() çağrıldı mı?
+   */
+  isDestroyed(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
   /**
    * Reklam var mı?
    */
@@ -216,8 +430,968 @@ export class AdContainer {
     return this.state.hasAd;
   }
 
+  /**
+   * Yüklü Ad'in companion reklamları
+   */
+  getCompanions(): CompanionAd[] {
+    return this.parsedVast?.companions ?? [];
+  }
+
+  /**
+   * Yüklü Ad'in viewability ölçümü
+   */
+  getViewability(): ViewabilityState | undefined {
+    return this.viewabilityTracker?.getState();
+  }
+
+  /**
+   * Waterfall sonucu (init() tamamlandıktan sonra)
+   */
+  getWaterfallResult(): WaterfallResult | undefined {
+    return this.state.waterfall;
+  }
+
   // ==================== PRIVATE HELPER METHODS ====================
 
+  /**
+   * Config'ten waterfall tag listesini oluştur
+   * vastUrls verilmişse o, yoksa tek elemanlı [vastUrl]
+   */
+  private getWaterfallTags(): WaterfallTag[] {
+    const rawTags = this.config.vastUrls && this.config.vastUrls.length > 0
+      ? this.config.vastUrls
+      : this.config.vastUrl
+        ? [this.config.vastUrl]
+        : [];
+
+    return rawTags.map((tag) => {
+      const waterfallTag = typeof tag === 'string' ? { url: tag } : tag;
+      return {
+        ...waterfallTag,
+        timeout: waterfallTag.timeout ?? this.config.tagTimeout ?? this.timeouts.wrapperChain,
+      };
+    });
+  }
+
+  /**
+   * Tek bir waterfall tag'ini dene
+   * - VAST'ı parse et (wrapper zinciri timeout'u ile)
+   * - Çözülemeyen Ad'lerin Error URI'lerini fire et
+   * - Pod kuyruğunu oluştur ve ilk oynatılabilir Ad'i yükle
+   * Sonuç Traffic Log'a 'Waterfall' kaydı olarak düşer.
+   */
+  private async tryWaterfallTag(
+    tag: WaterfallTag,
+    index: number
+  ): Promise<{ result: WaterfallAttempt; error?: unknown }> {
+    const logId = crypto.randomUUID();
+    const startedAt = Date.now();
+    let resolveMs: number | undefined;
+
+    this.vastRequestTimings = [];
+    this.mediaLoadMs = undefined;
+
+    this.log(`[AdContainer] Trying waterfall tag #${index + 1}: ${tag.url}`);
+    this.config.loggerCallback({
+      id: logId,
+      timestamp: new Date(),
+      eventType: 'Waterfall',
+      trackerUrl: tag.url,
+      status: 'pending',
+    });
+
+    try {
+      // 1. VAST parse et
+      const response = await this.resolveVast(tag);
+      this.throwIfDestroyed();
+      resolveMs = Date.now() - startedAt;
+      this.log(
+        `[AdContainer] VAST parsed: ${response.ads.length} ads, ${response.errors.length} failed`
+      );
+
+      // 2. Çözülemeyen Ad'lerin Error URI'lerini fire et
+      response.errors.forEach((error) => {
+        this.fireAdError(error, error.errorUrls || []);
+      });
+
+      if (response.ads.length === 0) {
+        throw response.errors[0];
+      }
+
+      // 3. Pod kuyruğunu ve fallback havuzunu oluştur
+      this.buildAdQueue(response.ads);
+
+      // 4. İlk oynatılabilir Ad'i yükle
+      await this.loadNextAd();
+
+      const result: WaterfallAttempt = {
+        index,
+        url: tag.url,
+        status: 'won',
+        elapsedMs: Date.now() - startedAt,
+        resolveMs,
+        vastRequests: this.vastRequestTimings,
+        mediaLoadMs: this.mediaLoadMs,
+      };
+
+      this.config.loggerCallback({
+        id: logId,
+        timestamp: new Date(),
+        eventType: 'Waterfall',
+        trackerUrl: tag.url,
+        status: 'success',
+        elapsedMs: result.elapsedMs,
+      });
+
+      return { result };
+    } catch (error) {
+      // destroy() ile iptal: sonraki tag'ler denenmez, hiçbir şey raporlanmaz
+      if (this.isDestroyed()) {
+        throw error;
+      }
+
+      const vastError = error as Partial<VastError>;
+      const errorCode = vastError?.code ?? VastErrorCode.UNDEFINED_ERROR;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      this.log(`[AdContainer] Waterfall tag #${index + 1} failed: ${errorMessage}`, true);
+
+      // Parse/fetch hatalarının Error URI'leri (Ad hataları loadNextAd'de fire edildi)
+      this.fireAdError(error, vastError?.errorUrls ?? []);
+
+      const result: WaterfallAttempt = {
+        index,
+        url: tag.url,
+        status: 'failed',
+        errorCode,
+        errorMessage,
+        elapsedMs: Date.now() - startedAt,
+        resolveMs,
+        vastRequests: this.vastRequestTimings,
+      };
+
+      this.config.loggerCallback({
+        id: logId,
+        timestamp: new Date(),
+        eventType: 'Waterfall',
+        trackerUrl: tag.url,
+        status: 'error',
+        errorMessage: `[${errorCode}] ${errorMessage}`,
+        elapsedMs: result.elapsedMs,
+      });
+
+      return { result, error };
+    }
+  }
+
+  /**
+   * Tag'in VAST'ını wrapper zinciri timeout'u ile çöz
+   * Timeout dolunca bekleyen fetch'ler iptal edilir, çözülemeyen Ad'ler 301 ile başarısız olur
+   * destroy() de zinciri iptal eder
+   */
+  private async resolveVast(tag: WaterfallTag): Promise<ParsedVastResponse> {
+    const controller = new AbortController();
+    const destroySignal = this.abortController.signal;
+    const abortOnDestroy = () => controller.abort(destroySignal.reason);
+    destroySignal.addEventListener('abort', abortOnDestroy);
+
+    const timer = tag.timeout && tag.timeout > 0
+      ? setTimeout(() => {
+          this.log(`[AdContainer] Wrapper chain timed out after ${tag.timeout}ms`, true);
+          controller.abort(
+            this.createError(
+              VastErrorCode.WRAPPER_TIMEOUT,
+              'VAST wrapper chain timed out',
+              `No InLine within ${tag.timeout}ms`
+            )
+          );
+        }, tag.timeout)
+      : null;
+
+    try {
+      return await this.vastParser.parseAll(tag.url, controller.signal);
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      destroySignal.removeEventListener('abort', abortOnDestroy);
+    }
+  }
+
+  /**
+   * VAST request'i bitti: süresini kaydet ve Traffic Log'a yaz
+   */
+  private handleVastRequest(timing: VastRequestTiming): void {
+    this.vastRequestTimings.push(timing);
+
+    this.config.loggerCallback({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      eventType: 'VastRequest',
+      trackerUrl: timing.url,
+      status: timing.status === 'success' ? 'success' : 'error',
+      errorMessage: timing.status === 'timeout'
+        ? `[${VastErrorCode.WRAPPER_TIMEOUT}] Timed out (depth ${timing.depth})`
+        : timing.status === 'error'
+          ? `Request failed (depth ${timing.depth})`
+          : undefined,
+      elapsedMs: timing.elapsedMs,
+    });
+  }
+
+  /**
+   * Parse edilen Ad'lerden pod kuyruğunu ve fallback havuzunu oluştur
+   * - sequence'lı Ad varsa: pod = sequence sıralı Ad'ler, havuz = diğerleri
+   * - yoksa: ilk Ad oynatılır, diğerleri havuzdadır
+   */
+  private buildAdQueue(ads: ParsedVast[]): void {
+    const podAds = ads
+      .filter((ad) => ad.sequence !== undefined)
+      .sort((a, b) => (a.sequence as number) - (b.sequence as number));
+    const standaloneAds = ads.filter((ad) => ad.sequence === undefined);
+
+    if (podAds.length > 0) {
+      this.adQueue = podAds;
+      this.fallbackPool = standaloneAds;
+    } else {
+      this.adQueue = standaloneAds.slice(0, 1);
+      this.fallbackPool = standaloneAds.slice(1);
+    }
+
+    this.podIndex = -1;
+
+    this.log(
+      `[AdContainer] Ad queue: ${this.adQueue.length} ads, ${this.fallbackPool.length} in fallback pool`
+    );
+  }
+
+  /**
+   * Kuyruktaki sıradaki Ad'i yükle
+   * Yüklenemezse Error URI'lerini fire et ve havuzdan sıradakini dene.
+   * Havuz da biterse pod'daki bir sonraki Ad'e geç.
+   */
+  private async loadNextAd(): Promise<void> {
+    let lastError: unknown = null;
+
+    this.podIndex++;
+
+    while (this.podIndex < this.adQueue.length) {
+      let candidate: ParsedVast | undefined = this.adQueue[this.podIndex];
+
+      while (candidate) {
+        try {
+          await this.loadAd(candidate);
+          this.adQueue[this.podIndex] = candidate;
+          return;
+        } catch (error) {
+          // destroy() ile iptal: fallback denenmez
+          if (this.isDestroyed()) {
+            throw error;
+          }
+
+          lastError = error;
+          this.log(
+            `[AdContainer] Ad ${candidate.adId || ''} failed: ${error instanceof Error ? error.message : error}`,
+            true
+          );
+
+          this.fireAdError(error, candidate.errors);
+          this.unloadAd();
+
+          candidate = this.fallbackPool.shift();
+          if (candidate) {
+            this.log(`[AdContainer] Falling back to Ad ${candidate.adId || ''}`);
+          }
+        }
+      }
+
+      this.podIndex++;
+    }
+
+    throw lastError ?? this.createError(VastErrorCode.UNDEFINED_ERROR, 'No playable ad in VAST response');
+  }
+
+  /**
+   * Tek bir Ad'i yükle
+   * - MediaFile'ı seç ve video src'ye set et (veya overlay göster)
+   * - QuartileTracker'ı başlat
+   * - Impressions fire et, companion'ları render et
+   */
+  private async loadAd(parsedVast: ParsedVast): Promise<void> {
+    this.parsedVast = parsedVast;
+
+    // Linear yoksa NonLinear overlay olarak göster
+    if (parsedVast.mediaFiles.length === 0 && parsedVast.nonLinears.length > 0) {
+      await this.initOverlay(parsedVast);
+      return;
+    }
+
+    // 1. MediaFile var mı kontrol et
+    if (!parsedVast.mediaFiles || parsedVast.mediaFiles.length === 0) {
+      throw this.createError(VastErrorCode.MEDIA_FILE_NOT_FOUND, 'No MediaFiles found in VAST');
+    }
+
+    // 2. MediaFile'ları sırala (oynatılabilirlik, player boyutu, bant genişliği)
+    const rankedMediaFiles = await this.mediaFileSelector.rank(parsedVast.mediaFiles);
+    this.throwIfDestroyed();
+
+    // Player'ın desteklemediği MediaFile'lar denenmeden elenir (403)
+    parsedVast.mediaFiles
+      .filter((mediaFile) => !rankedMediaFiles.some((score) => score.mediaFile === mediaFile))
+      .forEach((mediaFile) => {
+        this.logMediaAttempt(
+          mediaFile,
+          this.createError(
+            VastErrorCode.MEDIA_FILE_NOT_FOUND,
+            'MediaFile type not supported by player',
+            mediaFile.type
+          )
+        );
+      });
+
+    this.mediaCandidates = rankedMediaFiles;
+    this.mediaIndex = -1;
+
+    // 3-4. Sıradaki adayı yükle (yüklenemezse bir sonrakine geç)
+    await this.loadNextMediaFile();
+
+    // 5. QuartileTracker oluştur ve initialize et
+    this.quartileTracker = new QuartileTracker({
+      videoElement: this.videoElement,
+      trackingUrls: parsedVast.tracking,
+      onFire: (eventType, urls) => {
+        this.trackingManager.fireTrackers(eventType, urls);
+      },
+      onEvent: (eventType) => this.handleVideoEvent(eventType),
+      tolerance: this.config.quartileTolerance,
+      duration: parsedVast.duration,
+    });
+    this.quartileTracker.init();
+
+    // Pod ilerletme: QuartileTracker'dan sonra eklenir ki Complete önce fire edilsin
+    this.videoElement.addEventListener('ended', this.boundHandleEnded);
+
+    // Oynatma sırasında decode hatası / takılma: sıradaki MediaFile'a geç
+    this.attachPlaybackMonitor();
+
+    // Tıklanabilir reklam: ClickThrough + ClickTracking
+    if (parsedVast.clickThrough || parsedVast.clickTracking.length > 0) {
+      this.clickThroughController = new ClickThroughController({
+        videoElement: this.videoElement,
+        onClick: () => this.handleClick(),
+        debug: this.config.debug,
+      });
+      this.clickThroughController.init();
+    }
+
+    // Atlanabilir reklam: geri sayım + Skip butonu
+    if (parsedVast.skipOffset !== undefined) {
+      this.skipController = new SkipController({
+        videoElement: this.videoElement,
+        skipOffset: parsedVast.skipOffset,
+        duration: parsedVast.duration,
+        onSkip: () => this.handleSkip(),
+        debug: this.config.debug,
+      });
+      this.skipController.init();
+    }
+
+    // 6. State güncelle (waterfall sonucu korunur)
+    this.setState({
+      isReady: true,
+      hasAd: true,
+      isPlaying: false,
+      hasError: false,
+      errorMessage: undefined,
+      parsedVast,
+      podPosition: this.podIndex + 1,
+      podSize: this.adQueue.length,
+      isAutoPaused: undefined,
+    });
+    this.emit('loaded', {
+      ad: parsedVast,
+      podPosition: this.podIndex + 1,
+      podSize: this.adQueue.length,
+      isOverlay: false,
+    });
+
+    // Viewability ölçümü (MRC: %50 piksel, 2 saniye kesintisiz)
+    this.viewabilityTracker = new ViewabilityTracker({
+      videoElement: this.videoElement,
+      onChange: (viewability) => this.handleViewabilityChange(viewability),
+      onViewableImpression: () => this.handleViewableImpression(),
+      debug: this.config.debug,
+    });
+    this.viewabilityTracker.init();
+
+    // 7. Impressions fire et (reklam gösterildi)
+    await this.trackingManager.fireImpressions(parsedVast.impressions);
+
+    // 8. Companion'ları slot'lara render et
+    if (this.companionRenderer && parsedVast.companions.length > 0) {
+      this.companionRenderer.render(parsedVast.companions);
+    }
+  }
+
+  /**
+   * Yüklü Ad'e ait tracker, companion ve overlay'i kaldır
+   */
+  private unloadAd(): void {
+    this.videoElement.removeEventListener('ended', this.boundHandleEnded);
+    this.detachPlaybackMonitor();
+    this.detachMediaSource();
+
+    // QuartileTracker'ı temizle
+    if (this.quartileTracker) {
+      this.quartileTracker.destroy();
+      this.quartileTracker = null;
+    }
+
+    // Skip butonu ve tıklama alanını kaldır
+    this.removeAdControls();
+
+    // Viewability ölçümünü durdur
+    if (this.viewabilityTracker) {
+      this.viewabilityTracker.destroy();
+      this.viewabilityTracker = null;
+    }
+    if (this.state.viewability) {
+      this.setState({ viewability: undefined });
+    }
+
+    // Companion'ları slot'lardan kaldır
+    if (this.companionRenderer) {
+      this.companionRenderer.clear();
+    }
+
+    // Overlay'i kaldır
+    if (this.overlayRenderer) {
+      this.overlayRenderer.hide();
+      this.overlayRenderer = null;
+    }
+
+    this.parsedVast = null;
+    this.currentAssetUri = undefined;
+    this.mediaCandidates = [];
+    this.mediaIndex = -1;
+  }
+
+  /**
+   * Video bittiğinde pod'daki sıradaki Ad'e geç
+   */
+  private handleEnded(): void {
+    if (this.podIndex >= this.adQueue.length - 1) {
+      this.log('[AdContainer] Ad pod completed');
+      this.setState({ isPlaying: false });
+      this.removeAdControls();
+      this.emit('completed', { podSize: this.adQueue.length });
+      return;
+    }
+
+    this.log(`[AdContainer] Ad ${this.podIndex + 1}/${this.adQueue.length} ended, loading next`);
+
+    this.unloadAd();
+    this.loadNextAd()
+      .then(() => this.play())
+      .catch((error) => this.handleError(error));
+  }
+
+  /**
+   * Sıradaki MediaFile adayını yükle
+   * Yüklenemezse (load error 403/405, timeout 402) bir sonrakini dener.
+   * Hepsi başarısız olursa son hatayı fırlatır (Error URI'leri ancak o zaman fire edilir).
+   */
+  private async loadNextMediaFile(): Promise<void> {
+    let lastError: unknown = null;
+
+    this.isSwitchingMedia = true;
+
+    try {
+      while (++this.mediaIndex < this.mediaCandidates.length) {
+        const { mediaFile, adapter } = this.mediaCandidates[this.mediaIndex];
+        this.log(
+          `[AdContainer] Trying MediaFile ${this.mediaIndex + 1}/${this.mediaCandidates.length}: ` +
+            `${mediaFile.type} - ${mediaFile.url} (${adapter?.name})`
+        );
+
+        // destroy() sonrası video element'e (yeni reklama ait olabilir) dokunma
+        this.throwIfDestroyed();
+
+        const startedAt = Date.now();
+
+        try {
+          // Adapter ile video elementine bağla (MediaFile URL'inde de macro olabilir)
+          this.currentAssetUri = mediaFile.url;
+          await this.attachMediaSource(
+            mediaFile,
+            adapter,
+            this.macroExpander.expand(mediaFile.url, this.getMacroContext())
+          );
+
+          // Video metadata yüklenene kadar bekle
+          await this.waitForVideoReady();
+
+          this.mediaLoadMs = Date.now() - startedAt;
+          this.logMediaAttempt(mediaFile, undefined, this.mediaLoadMs);
+          return;
+        } catch (error) {
+          if (this.isDestroyed()) {
+            throw error;
+          }
+
+          lastError = error;
+          this.logMediaAttempt(mediaFile, error, Date.now() - startedAt);
+        }
+      }
+    } finally {
+      this.isSwitchingMedia = false;
+    }
+
+    throw lastError ?? this.createError(VastErrorCode.MEDIA_FILE_NOT_FOUND, 'No supported MediaFile found');
+  }
+
+  /**
+   * MediaFile'ı adapter'ı ile video elementine bağla
+   * Önceki adapter (MSE player vb.) önce ayrılır
+   */
+  private async attachMediaSource(
+    mediaFile: MediaFile,
+    adapter: MediaSourceAdapter | undefined,
+    url: string
+  ): Promise<void> {
+    this.detachMediaSource();
+
+    if (!adapter) {
+      throw this.createError(VastErrorCode.MEDIA_FILE_TYPE_NOT_SUPPORTED, 'No media source adapter', mediaFile.type);
+    }
+
+    this.activeMediaSource = adapter;
+
+    try {
+      await adapter.attach(this.videoElement, url, mediaFile);
+    } catch (error) {
+      throw this.createError(
+        VastErrorCode.MEDIA_FILE_TYPE_NOT_SUPPORTED,
+        `Media source adapter '${adapter.name}' failed`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Aktif adapter'ı video elementinden ayır
+   */
+  private detachMediaSource(): void {
+    if (!this.activeMediaSource) {
+      return;
+    }
+
+    try {
+      this.activeMediaSource.detach(this.videoElement);
+    } catch (error) {
+      this.log(`[AdContainer] Media source detach warning: ${error}`, false);
+    }
+
+    this.activeMediaSource = null;
+  }
+
+  /**
+   * Oynatma sırasında MediaFile başarısız oldu: aynı pozisyondan sıradakine geç
+   * Aday kalmadıysa reklam hatası (Error URI'leri fire edilir)
+   */
+  private handleMediaFailure(error: VastError & Error): void {
+    const failedMedia = this.mediaCandidates[this.mediaIndex]?.mediaFile;
+    const resumeAt = this.videoElement.currentTime;
+
+    this.clearStallTimer();
+    if (failedMedia) {
+      this.logMediaAttempt(failedMedia, error);
+    }
+
+    if (this.mediaIndex >= this.mediaCandidates.length - 1) {
+      this.log('[AdContainer] No MediaFile left to fall back to', true);
+      this.handleError(error);
+      return;
+    }
+
+    this.log(`[AdContainer] Falling back to next MediaFile at ${resumeAt.toFixed(1)}s`);
+
+    // src değişimi kullanıcı pause/resume'u değil
+    this.quartileTracker?.markSystemPause();
+
+    this.loadNextMediaFile()
+      .then(() => {
+        this.videoElement.currentTime = resumeAt;
+        this.quartileTracker?.markSystemResume();
+        this.play();
+      })
+      .catch((fallbackError) => this.handleError(fallbackError));
+  }
+
+  /**
+   * Oynatma izleyicisini ekle (decode hatası, takılma)
+   */
+  private attachPlaybackMonitor(): void {
+    this.videoElement.addEventListener('error', this.boundPlaybackHandlers.error);
+    this.videoElement.addEventListener('waiting', this.boundPlaybackHandlers.stall);
+    this.videoElement.addEventListener('stalled', this.boundPlaybackHandlers.stall);
+    this.videoElement.addEventListener('playing', this.boundPlaybackHandlers.progress);
+    this.videoElement.addEventListener('timeupdate', this.boundPlaybackHandlers.progress);
+    this.videoElement.addEventListener('pause', this.boundPlaybackHandlers.progress);
+  }
+
+  /**
+   * Oynatma izleyicisini kaldır
+   */
+  private detachPlaybackMonitor(): void {
+    this.videoElement.removeEventListener('error', this.boundPlaybackHandlers.error);
+    this.videoElement.removeEventListener('waiting', this.boundPlaybackHandlers.stall);
+    this.videoElement.removeEventListener('stalled', this.boundPlaybackHandlers.stall);
+    this.videoElement.removeEventListener('playing', this.boundPlaybackHandlers.progress);
+    this.videoElement.removeEventListener('timeupdate', this.boundPlaybackHandlers.progress);
+    this.videoElement.removeEventListener('pause', this.boundPlaybackHandlers.progress);
+    this.clearStallTimer();
+  }
+
+  /**
+   * Oynatma sırasında video hatası (decode vb.)
+   */
+  private handlePlaybackError(): void {
+    if (this.isSwitchingMedia) {
+      return;
+    }
+
+    this.handleMediaFailure(
+      this.createError(
+        this.getMediaErrorCode(),
+        'Video playback failed',
+        this.videoElement.error?.message
+      )
+    );
+  }
+
+  /**
+   * Video takıldı (waiting/stalled): süre içinde ilerlemezse fallback
+   */
+  private handlePlaybackStall(): void {
+    if (this.isSwitchingMedia || this.stallTimer || this.videoElement.paused) {
+      return;
+    }
+
+    this.stallTimer = setTimeout(() => {
+      this.stallTimer = null;
+      this.log('[AdContainer] Video stalled', true);
+      this.handleMediaFailure(
+        this.createError(VastErrorCode.MEDIA_FILE_TIMEOUT, 'Video playback stalled')
+      );
+    }, MEDIA_STALL_TIMEOUT);
+  }
+
+  /**
+   * Takılma timer'ını iptal et (video ilerledi veya durduruldu)
+   */
+  private clearStallTimer(): void {
+    if (this.stallTimer) {
+      clearTimeout(this.stallTimer);
+      this.stallTimer = null;
+    }
+  }
+
+  /**
+   * Video element hatasını VAST error koduna çevir
+   * - MEDIA_ERR_SRC_NOT_SUPPORTED: 403 (desteklenen MediaFile yok)
+   * - Diğerleri (network, decode): 405 (MediaFile gösterilemedi)
+   */
+  private getMediaErrorCode(): VastErrorCode {
+    const mediaError = this.videoElement.error;
+
+    if (mediaError && mediaError.code === mediaError.MEDIA_ERR_SRC_NOT_SUPPORTED) {
+      return VastErrorCode.MEDIA_FILE_NOT_FOUND;
+    }
+
+    return VastErrorCode.MEDIA_FILE_TYPE_NOT_SUPPORTED;
+  }
+
+  /**
+   * MediaFile denemesini Traffic Log'a kaydet
+   * Hata varsa raporlanacağı VAST koduyla
+   */
+  private logMediaAttempt(mediaFile: MediaFile, error?: unknown, elapsedMs?: number): void {
+    const errorCode = (error as Partial<VastError>)?.code ?? VastErrorCode.UNDEFINED_ERROR;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    this.config.loggerCallback({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      eventType: 'MediaFile',
+      trackerUrl: mediaFile.url,
+      status: error ? 'error' : 'success',
+      errorMessage: error ? `[${errorCode}] ${errorMessage} (${mediaFile.type})` : undefined,
+      elapsedMs,
+    });
+  }
+
+  /**
+   * Kullanıcı reklamı atladı
+   * - Skip tracker'larını fire et
+   * - Quartile tracking'i durdur (kalan quartile'lar, Pause ve Complete fire edilmez)
+   * - Pod'da sıradaki Ad'e geç veya reklamı bitir
+   */
+  private handleSkip(): void {
+    this.log('[AdContainer] Ad skipped');
+
+    const skipUrls = this.parsedVast?.tracking.Skip || [];
+    if (skipUrls.length > 0) {
+      this.trackingManager.fireTrackers('Skip', skipUrls);
+    }
+
+    // Tracker pause'dan önce kaldırılır ki Pause fire edilmesin
+    if (this.quartileTracker) {
+      this.quartileTracker.destroy();
+      this.quartileTracker = null;
+    }
+
+    this.videoElement.pause();
+    this.setState({ isPlaying: false });
+
+    if (this.parsedVast) {
+      this.emit('skipped', { ad: this.parsedVast });
+    }
+
+    this.handleEnded();
+  }
+
+  /**
+   * Kullanıcı reklama tıkladı
+   * - Oynuyorsa: ClickThrough'u yeni sekmede aç, ClickTracking fire et, reklamı durdur
+   * - Durmuşsa (kullanıcı geri döndü): reklamı devam ettir (Resume QuartileTracker'dan)
+   */
+  private handleClick(): void {
+    if (!this.parsedVast) {
+      return;
+    }
+
+    if (this.videoElement.paused) {
+      this.log('[AdContainer] Resuming ad after click');
+      this.play();
+      return;
+    }
+
+    this.log('[AdContainer] Ad clicked');
+
+    // Popup blocker'a takılmaması için window.open click handler içinde senkron çağrılır
+    // Sadece http(s) açılır (javascript:/data: URL'leri publisher origin'inde çalışırdı)
+    const expandedClickThrough = this.parsedVast.clickThrough
+      ? this.macroExpander.expand(this.parsedVast.clickThrough, this.getMacroContext())
+      : undefined;
+    const clickThroughUrl = toHttpUrl(expandedClickThrough) ?? undefined;
+    if (clickThroughUrl) {
+      window.open(clickThroughUrl, '_blank', 'noopener');
+    } else if (expandedClickThrough) {
+      this.log(`[AdContainer] Ignoring non-http(s) ClickThrough: ${expandedClickThrough}`, true);
+    }
+
+    if (this.parsedVast.clickTracking.length > 0) {
+      this.trackingManager.fireTrackers('Click', this.parsedVast.clickTracking);
+    }
+
+    this.emit('clicked', { ad: this.parsedVast, clickThroughUrl });
+
+    this.videoElement.pause();
+    this.setState({ isPlaying: false });
+  }
+
+  /**
+   * Viewability değişti: state'i güncelle ve auto-pause policy'yi uygula
+   * - Eşik altı veya tab gizli: oynuyorsa sistem pause'u
+   * - Geri geldi: sadece sistemin durdurduğu reklamı devam ettir (kullanıcı pause'una dokunma)
+   */
+  private handleViewabilityChange(viewability: ViewabilityState): void {
+    this.setState({ viewability });
+
+    const autoPause = this.config.autoPause;
+    if (!autoPause || this.isOverlayMode) {
+      return;
+    }
+
+    // Sistem pause'u sırasında video tekrar oynatıldıysa (kullanıcı) pause artık sistemin değil
+    if (this.state.isAutoPaused && !this.videoElement.paused) {
+      this.setState({ isAutoPaused: false });
+    }
+
+    const minVisiblePercent = autoPause.minVisiblePercent ?? 0.5;
+    const pauseOnHidden = autoPause.pauseOnHidden !== false;
+
+    const isOutOfView =
+      viewability.isMeasurable && viewability.percentInView < minVisiblePercent;
+    const shouldPause = isOutOfView || (pauseOnHidden && !viewability.isPageVisible);
+
+    if (shouldPause && !this.state.isAutoPaused && !this.videoElement.paused) {
+      this.log(`[AdContainer] Auto-pause (${isOutOfView ? 'out of view' : 'tab hidden'})`);
+
+      this.quartileTracker?.markSystemPause();
+      this.videoElement.pause();
+      this.setState({ isAutoPaused: true, isPlaying: false });
+      this.logEngineEvent('AutoPause');
+
+      if (this.parsedVast) {
+        this.emit('paused', { ad: this.parsedVast, isAutoPause: true });
+      }
+    } else if (!shouldPause && this.state.isAutoPaused) {
+      this.log('[AdContainer] Auto-resume');
+
+      this.setState({ isAutoPaused: false });
+      this.logEngineEvent('AutoResume');
+      this.quartileTracker?.markSystemResume();
+      this.play();
+
+      if (this.parsedVast) {
+        this.emit('resumed', { ad: this.parsedVast, isAutoResume: true });
+      }
+    }
+  }
+
+  /**
+   * Ad MRC viewability standardını karşıladı
+   * Traffic Log'a kaydet ve publisher'a bildir
+   */
+  private handleViewableImpression(): void {
+    this.log('[AdContainer] Viewable impression');
+
+    this.logEngineEvent('ViewableImpression');
+
+    if (this.parsedVast) {
+      this.emit('viewableImpression', { ad: this.parsedVast });
+    }
+  }
+
+  /**
+   * QuartileTracker event'i (tracker'ı olmasa da): lifecycle event'lerine çevir
+   * Sistem pause/resume'ları QuartileTracker'dan gelmez (auto-pause kendi emit eder)
+   */
+  private handleVideoEvent(eventType: VastEventType): void {
+    const ad = this.parsedVast;
+    if (!ad) {
+      return;
+    }
+
+    switch (eventType) {
+      case 'Start':
+      case 'FirstQuartile':
+      case 'Midpoint':
+      case 'ThirdQuartile':
+      case 'Complete':
+        this.emit('quartile', { ad, quartile: eventType as QuartileEventType });
+
+        if (eventType === 'Start') {
+          this.emit('started', { ad });
+        } else if (eventType === 'Complete') {
+          this.emit('adCompleted', { ad, podPosition: this.podIndex + 1 });
+        }
+        break;
+
+      case 'Pause':
+        this.setState({ isPlaying: false });
+        this.emit('paused', { ad, isAutoPause: false });
+        break;
+
+      case 'Resume':
+        this.setState({ isPlaying: true });
+        this.emit('resumed', { ad, isAutoResume: false });
+        break;
+    }
+  }
+
+  /**
+   * Tracker olmayan engine olayını Traffic Log'a kaydet
+   */
+  private logEngineEvent(eventType: EngineLogType): void {
+    this.config.loggerCallback({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      eventType,
+      trackerUrl: this.currentAssetUri || '',
+      status: 'success',
+    });
+  }
+
+  /**
+   * Skip butonu ve tıklama alanını kaldır
+   */
+  private removeAdControls(): void {
+    if (this.skipController) {
+      this.skipController.destroy();
+      this.skipController = null;
+    }
+
+    if (this.clickThroughController) {
+      this.clickThroughController.destroy();
+      this.clickThroughController = null;
+    }
+  }
+
+  /**
+   * NonLinear-only reklamı content video'nun üzerinde göster
+   */
+  private async initOverlay(parsedVast: ParsedVast): Promise<void> {
+    this.log('[AdContainer] No Linear creative, showing NonLinear overlay');
+
+    this.isOverlayMode = true;
+
+    this.overlayRenderer = new OverlayRenderer({
+      videoElement: this.videoElement,
+      onFire: (eventType, urls) => {
+        this.trackingManager.fireTrackers(eventType, urls);
+      },
+      onClose: () => {
+        this.log('[AdContainer] Overlay closed');
+        this.emit('completed', { podSize: this.adQueue.length });
+      },
+      debug: this.config.debug,
+    });
+
+    const shown = this.overlayRenderer.show(parsedVast.nonLinears);
+    if (!shown) {
+      throw this.createError(
+        VastErrorCode.GENERAL_NONLINEAR_ERROR,
+        'NonLinear overlay could not be rendered'
+      );
+    }
+
+    this.setState({
+      isReady: true,
+      hasAd: true,
+      isPlaying: false,
+      hasError: false,
+      errorMessage: undefined,
+      parsedVast,
+      podPosition: this.podIndex + 1,
+      podSize: this.adQueue.length,
+    });
+    this.emit('loaded', {
+      ad: parsedVast,
+      podPosition: this.podIndex + 1,
+      podSize: this.adQueue.length,
+      isOverlay: true,
+    });
+
+    await this.trackingManager.fireImpressions(parsedVast.impressions);
+
+    if (this.companionRenderer && parsedVast.companions.length > 0) {
+      this.companionRenderer.render(parsedVast.companions);
+    }
+  }
+
+  /**
+   * Güncel macro context'i (her tracker fire'ında okunur)
+   */
+  private getMacroContext(): MacroContext {
+    return {
+      contentPlayhead: this.videoElement.currentTime,
+      assetUri: this.currentAssetUri,
+    };
+  }
+
   /**
    * Video metadata'nın yüklenmesini bekle
    */
@@ -241,45 +1415,155 @@ export class AdContainer {
       const onError = () => {
         this.log('[AdContainer] Video loading error', true);
         cleanup();
-        reject(new Error('Video loading failed'));
+        reject(
+          this.createError(
+            this.getMediaErrorCode(),
+            'Video loading failed',
+            this.videoElement.error?.message
+          )
+        );
       };
 
-      // Timeout (10 saniye)
-      const timeout = setTimeout(() => {
-        this.log('[AdContainer] Video loading timeout', true);
+      // Timeout (timeouts.mediaLoad) - bekleme iptal edilir, 402
+      const controller = new AbortController();
+      const timeoutMs = this.timeouts.mediaLoad;
+      const timeout = timeoutMs > 0
+        ? setTimeout(() => {
+            this.log('[AdContainer] Video loading timeout', true);
+            controller.abort(
+              this.createError(
+                VastErrorCode.MEDIA_FILE_TIMEOUT,
+                'Video loading timeout',
+                `No metadata within ${timeoutMs}ms`
+              )
+            );
+          }, timeoutMs)
+        : null;
+
+      const onAbort = () => {
         cleanup();
-        reject(new Error('Video loading timeout'));
-      }, 10000);
+        reject(controller.signal.reason);
+      };
+
+      // destroy() beklemeyi de iptal eder
+      const destroySignal = this.abortController.signal;
+      const abortOnDestroy = () => controller.abort(destroySignal.reason);
 
       const cleanup = () => {
         this.videoElement.removeEventListener('loadedmetadata', onLoadedMetadata);
         this.videoElement.removeEventListener('error', onError);
-        clearTimeout(timeout);
+        controller.signal.removeEventListener('abort', onAbort);
+        destroySignal.removeEventListener('abort', abortOnDestroy);
+        if (timeout) {
+          clearTimeout(timeout);
+        }
       };
 
       this.videoElement.addEventListener('loadedmetadata', onLoadedMetadata);
       this.videoElement.addEventListener('error', onError);
+      controller.signal.addEventListener('abort', onAbort);
+      destroySignal.addEventListener('abort', abortOnDestroy);
+
+      if (destroySignal.aborted) {
+        abortOnDestroy();
+      }
     });
   }
 
   /**
    * Hata handling
+   * - State'i güncelle
+   * - <Error> URI'lerini [ERRORCODE] ile fire et (henüz edilmediyse)
    */
   private handleError(error: unknown): void {
+    // destroy() sonrası (iptal edilen işlerden gelen) hatalar raporlanmaz
+    if (this.isDestroyed()) {
+      return;
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const vastError = error as Partial<VastError>;
 
-    this.log(`[AdContainer] ERROR: ${errorMessage}`, true);
+    this.log(`[AdContainer] ERROR: ${errorMessage} (code: ${vastError?.code})`, true);
 
-    this.state = {
-      ...this.state,
+    this.setState({
       hasError: true,
       errorMessage,
-    };
+    });
 
-    // Error tracking URL'lerini fire et (varsa)
-    if (this.parsedVast?.tracking['Error']) {
-      this.trackingManager.fireTrackers('Error', this.parsedVast.tracking['Error']);
+    // Yüklü Ad varsa onun, yoksa hata anına kadar toplanan URI'ler
+    this.fireAdError(error, this.parsedVast?.errors ?? vastError?.errorUrls ?? []);
+
+    this.emit('error', {
+      error,
+      code: vastError?.code ?? VastErrorCode.UNDEFINED_ERROR,
+      message: errorMessage,
+    });
+  }
+
+  /**
+   * Error URI'lerini hatanın VAST koduyla fire et
+   * Aynı hata için ikinci kez fire edilmez
+   */
+  private fireAdError(error: unknown, errorUrls: string[]): void {
+    if (this.isDestroyed()) {
+      return;
+    }
+
+    if (error && typeof error === 'object') {
+      if (this.reportedErrors.has(error)) {
+        return;
+      }
+      this.reportedErrors.add(error);
     }
+
+    const errorCode = (error as Partial<VastError>)?.code ?? VastErrorCode.UNDEFINED_ERROR;
+
+    if (errorUrls.length > 0) {
+      this.trackingManager.fireTrackers('Error', errorUrls, { errorCode });
+    }
+  }
+
+  /**
+   * VastError oluştur
+   */
+  private createError(
+    code: VastErrorCode,
+    message: string,
+    details?: string
+  ): VastError & Error {
+    const error = new Error(message) as VastError & Error;
+    error.code = code;
+    error.details = details;
+    return error;
+  }
+
+  /**
+   * destroy() çağrıldıysa iptal hatasını fırlat (init akışını keser)
+   */
+  private throwIfDestroyed(): void {
+    if (this.isDestroyed()) {
+      throw this.abortController.signal.reason;
+    }
+  }
+
+  /**
+   * State'i güncelle ve stateChange bildir
+   */
+  private setState(patch: Partial<AdContainerState>): void {
+    this.state = { ...this.state, ...patch };
+    this.emit('stateChange', { state: this.getState() });
+  }
+
+  /**
+   * Lifecycle event'i yay (destroy sonrası yayılmaz)
+   */
+  private emit<K extends AdContainerEventType>(type: K, payload: AdContainerEventMap[K]): void {
+    if (this.isDestroyed()) {
+      return;
+    }
+
+    this.events.emit(type, payload);
   }
 
   /**
@@ -0,0 +1,102 @@
+/**
+ * Ad Event Emitter - Tipli Lifecycle Event'leri
+ *
+ * AdContainer'ın dışarıya açtığı on/off/once API'sinin altyapısı.
+ * Event isimleri ve payload tipleri bir event map'ten gelir,
+ * böylece yanlış event ismi veya payload compile time'da yakalanır.
+ *
+ * ÖZELLIKLER:
+ * - on(): Listener ekle (kaldırmak için fonksiyon döndürür)
+ * - once(): Bir kez çalışıp kendini kaldıran listener
+ * - off(): Listener kaldır (once ile eklenenler dahil)
+ * - Listener hatası diğer listener'ları ve engine'i etkilemez
+ */
+
+/**
+ * Event map'indeki bir event'in listener'ı
+ */
+export type EventListener<Payload> = (payload: Payload) => void;
+
+interface ListenerEntry<Payload> {
+  listener: EventListener<Payload>;
+  once: boolean;
+}
+
+export class AdEventEmitter<EventMap extends object> {
+  private listeners: { [K in keyof EventMap]?: ListenerEntry<EventMap[K]>[] } = {};
+
+  /**
+   * Listener ekle
+   *
+   * @returns Listener'ı kaldıran fonksiyon
+   */
+  on<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): () => void {
+    this.addListener(type, listener, false);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Bir kez çalışacak listener ekle
+   *
+   * @returns Listener'ı (çalışmadan önce) kaldıran fonksiyon
+   */
+  once<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): () => void {
+    this.addListener(type, listener, true);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Listener kaldır
+   */
+  off<K extends keyof EventMap>(type: K, listener: EventListener<EventMap[K]>): void {
+    const entries = this.listeners[type];
+    if (!entries) {
+      return;
+    }
+
+    this.listeners[type] = entries.filter((entry) => entry.listener !== listener);
+  }
+
+  /**
+   * Event'i tüm listener'lara ilet
+   */
+  emit<K extends keyof EventMap>(type: K, payload: EventMap[K]): void {
+    const entries = this.listeners[type];
+    if (!entries || entries.length === 0) {
+      return;
+    }
+
+    // Listener'lar emit sırasında off/once ile listeyi değiştirebilir
+    this.listeners[type] = entries.filter((entry) => !entry.once);
+
+    entries.forEach((entry) => {
+      try {
+        entry.listener(payload);
+      } catch (error) {
+        // Publisher kodundaki hata debug kapalıyken de görünsün
+        console.error(`[AdEventEmitter] Listener for '${String(type)}' threw:`, error);
+      }
+    });
+  }
+
+  /**
+   * Tüm listener'ları kaldır
+   */
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  /**
+   * Listener'ı listeye ekle
+   */
+  private addListener<K extends keyof EventMap>(
+    type: K,
+    listener: EventListener<EventMap[K]>,
+    once: boolean
+  ): void {
+    const entries = this.listeners[type] ?? [];
+    entries.push({ listener, once });
+    this.listeners[type] = entries;
+  }
+
+}
@@ -0,0 +1,482 @@
+/**
+ * Ad Scheduler - Content Video Etrafında Pre/Mid/Post-roll Ad Break'ler
+ *
+ * Bu sınıf content video'yu izler ve schedule'daki her ad break'te
+ * content'i durdurup reklamı bir AdContainer ile oynatır.
+ *
+ * KULLANIM:
+ * ```typescript
+ * const scheduler = new AdScheduler({
+ *   contentElement: document.querySelector('video'),
+ *   breaks: [
+ *     { offset: 'pre', vastUrl: 'https://example.com/preroll.xml' },
+ *     { offset: '50%', vastUrl: 'https://example.com/midroll.xml' },
+ *     { offset: 'post', vastUrl: 'https://example.com/postroll.xml' },
+ *   ],
+ *   loggerCallback: (log) => console.log(log),
+ * });
+ *
+ * scheduler.start(); // Pre-roll varsa hemen oynatılır
+ * ```
+ *
+ * BREAK AKIŞI:
+ * 1. Content'in pozisyonu ve oynatma durumu kaydedilir, content durdurulur
+ * 2. Reklam adVideoElement'te (overlay) veya content elementinin kendisinde oynatılır
+ * 3. Reklam bitince (veya hata olunca) content src'si (contentSrc), pozisyonu ve durumu geri yüklenir
+ *
+ * NONLINEAR:
+ * - Break'te sadece NonLinear varsa overlay content'in üzerinde gösterilir ve content hemen devam eder
+ * - Overlay kapatılınca (veya sıradaki break başlayınca) break tamamlanır
+ *
+ * MID-ROLL:
+ * - Saniye veya yüzde ile verilir (yüzde, content süresi belli olunca çözülür)
+ * - Kullanıcı birden fazla break'in ilerisine seek ederse sadece sonuncusu oynatılır
+ */
+
+import { AdContainer } from './AdContainer';
+import type {
+  AdSchedulerConfig,
+  AdSchedulerState,
+  AdBreak,
+  AdBreakState,
+  AdBreakStatus,
+} from './types';
+
+/**
+ * Break öncesi content durumu (geri yükleme için)
+ */
+interface ContentSnapshot {
+  currentTime: number;
+  wasPlaying: boolean;
+}
+
+export class AdScheduler {
+  // Konfigürasyon
+  private config: AdSchedulerConfig;
+
+  // Video elementleri
+  private contentElement: HTMLVideoElement;
+  private adVideoElement: HTMLVideoElement | null;
+
+  // Content video URL'i (break sonrası geri yüklenir)
+  private contentSrc: string;
+
+  // Break'ler ve state'leri (aynı index)
+  private breaks: AdBreak[];
+  private breakStates: AdBreakState[];
+  private activeBreakIndex: number | null = null;
+
+  // Aktif break'in reklamı
+  private adContainer: AdContainer | null = null;
+
+  // Aktif break NonLinear overlay mı? (content oynamaya devam eder)
+  private isOverlayBreak: boolean = false;
+
+  // Event handler'lar (cleanup için saklıyoruz)
+  private boundHandleTimeUpdate: () => void;
+  private boundHandleEnded: () => void;
+
+  private isStarted: boolean = false;
+
+  constructor(config: AdSchedulerConfig) {
+    this.config = config;
+    this.contentElement = config.contentElement;
+    this.adVideoElement = config.adVideoElement || null;
+    this.contentSrc =
+      config.contentSrc ||
+      this.contentElement.currentSrc ||
+      this.contentElement.getAttribute('src') ||
+      '';
+    this.breaks = config.breaks;
+
+    this.breakStates = config.breaks.map((adBreak, index) => ({
+      id: adBreak.id || `break-${index}-${adBreak.offset}`,
+      offset: adBreak.offset,
+      status: 'pending',
+    }));
+
+    this.boundHandleTimeUpdate = this.handleTimeUpdate.bind(this);
+    this.boundHandleEnded = this.handleEnded.bind(this);
+
+    // Overlay ad video'su break dışında gizli
+    if (this.adVideoElement) {
+      this.adVideoElement.style.display = 'none';
+    }
+
+    this.log(`[AdScheduler] Created with ${this.breaks.length} breaks`);
+  }
+
+  /**
+   * Content'i izlemeye başla
+   * Pre-roll varsa hemen oynatılır, bitince content başlatılır
+   */
+  start(): void {
+    if (this.isStarted) {
+      return;
+    }
+
+    this.isStarted = true;
+
+    // Element'te content yoksa (önceki reklam src'yi temizlediyse) yükle
+    if (this.contentSrc && !this.hasContentSrc()) {
+      this.log('[AdScheduler] Loading content src');
+      this.contentElement.src = this.contentSrc;
+      this.contentElement.load();
+    }
+
+    this.contentElement.addEventListener('timeupdate', this.boundHandleTimeUpdate);
+    this.contentElement.addEventListener('ended', this.boundHandleEnded);
+
+    const prerollIndex = this.breaks.findIndex((adBreak) => adBreak.offset === 'pre');
+    if (prerollIndex >= 0) {
+      this.playBreak(prerollIndex, true);
+    } else {
+      this.emitState();
+    }
+  }
+
+  /**
+   * Scheduler'ı durdur ve temizle
+   * Aktif break varsa reklam kaldırılır (content geri yüklenmez)
+   */
+  destroy(): void {
+    this.log('[AdScheduler] Destroying...');
+
+    this.contentElement.removeEventListener('timeupdate', this.boundHandleTimeUpdate);
+    this.contentElement.removeEventListener('ended', this.boundHandleEnded);
+
+    if (this.adContainer) {
+      this.adContainer.destroy();
+      this.adContainer = null;
+    }
+
+    if (this.adVideoElement) {
+      this.adVideoElement.style.display = 'none';
+    }
+
+    this.activeBreakIndex = null;
+    this.isOverlayBreak = false;
+    this.isStarted = false;
+
+    this.log('[AdScheduler] Destroyed');
+  }
+
+  /**
+   * Mevcut state
+   */
+  getState(): AdSchedulerState {
+    const activeBreak =
+      this.activeBreakIndex !== null ? { ...this.breakStates[this.activeBreakIndex] } : null;
+
+    return {
+      breaks: this.breakStates.map((breakState) => ({ ...breakState })),
+      activeBreak,
+      isInBreak: activeBreak !== null,
+    };
+  }
+
+  /**
+   * Aktif break'in AdContainer'ı (companion vb. için)
+   */
+  getAdContainer(): AdContainer | null {
+    return this.adContainer;
+  }
+
+  // ==================== PRIVATE HELPER METHODS ====================
+
+  /**
+   * Content timeupdate: zamanı gelen mid-roll var mı?
+   */
+  private handleTimeUpdate(): void {
+    // Break sırasında (ortak element'te reklam oynarken) content zamanı yok sayılır
+    // NonLinear overlay'de content oynar; zamanı gelen break overlay'i kapatır
+    if (this.activeBreakIndex !== null && !this.isOverlayBreak) {
+      return;
+    }
+
+    const currentTime = this.contentElement.currentTime;
+    const dueIndexes: number[] = [];
+
+    this.breaks.forEach((adBreak, index) => {
+      if (this.breakStates[index].status !== 'pending') {
+        return;
+      }
+
+      const breakTime = this.resolveOffset(adBreak);
+      if (breakTime !== null && currentTime >= breakTime) {
+        dueIndexes.push(index);
+      }
+    });
+
+    if (dueIndexes.length === 0) {
+      return;
+    }
+
+    // Seek ile atlanan break'ler: sadece en geç olanı oynat
+    dueIndexes.sort(
+      (a, b) => (this.resolveOffset(this.breaks[a]) ?? 0) - (this.resolveOffset(this.breaks[b]) ?? 0)
+    );
+    const breakIndex = dueIndexes.pop() as number;
+
+    dueIndexes.forEach((index) => this.setBreakStatus(index, 'skipped'));
+
+    this.playBreak(breakIndex, false);
+  }
+
+  /**
+   * Content ended: post-roll
+   */
+  private handleEnded(): void {
+    if (this.activeBreakIndex !== null && !this.isOverlayBreak) {
+      return;
+    }
+
+    const postrollIndex = this.breaks.findIndex(
+      (adBreak, index) => adBreak.offset === 'post' && this.breakStates[index].status === 'pending'
+    );
+
+    if (postrollIndex >= 0) {
+      this.playBreak(postrollIndex, false);
+    }
+  }
+
+  /**
+   * Mid-roll offset'ini saniyeye çevir
+   * Pre/post-roll veya süresi henüz bilinmeyen yüzde için null
+   */
+  private resolveOffset(adBreak: AdBreak): number | null {
+    const offset = adBreak.offset;
+
+    if (typeof offset === 'number') {
+      return offset;
+    }
+
+    if (offset === 'pre' || offset === 'post') {
+      return null;
+    }
+
+    const duration = this.contentElement.duration;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      return null;
+    }
+
+    return (parseFloat(offset) / 100) * duration;
+  }
+
+  /**
+   * Break'i oynat
+   * - Content'i kaydet ve durdur
+   * - AdContainer ile reklamı oynat
+   * - Bitince/hata olunca content'i geri yükle
+   *
+   * @param breakIndex - Oynatılacak break
+   * @param isPreroll - Pre-roll ise reklamdan sonra content başlatılır
+   */
+  private async playBreak(breakIndex: number, isPreroll: boolean): Promise<void> {
+    const adBreak = this.breaks[breakIndex];
+    const breakState = this.breakStates[breakIndex];
+
+    // Gösterilen NonLinear overlay varsa kaldır (content'e dokunulmaz)
+    if (this.isOverlayBreak && this.activeBreakIndex !== null) {
+      this.endBreak(this.activeBreakIndex, 'completed', null);
+    }
+
+    this.log(`[AdScheduler] Starting break ${breakState.id}`);
+
+    const snapshot: ContentSnapshot = {
+      currentTime: this.contentElement.currentTime,
+      wasPlaying: isPreroll || !this.contentElement.paused,
+    };
+
+    this.contentElement.pause();
+    this.activeBreakIndex = breakIndex;
+    this.setBreakStatus(breakIndex, 'playing');
+
+    // Reklam overlay elementte mi, content elementinde mi?
+    const adElement = this.adVideoElement || this.contentElement;
+    if (this.adVideoElement) {
+      this.adVideoElement.style.display = '';
+    }
+
+    let isFinished = false;
+    const finish = (status: AdBreakStatus, error?: unknown) => {
+      if (isFinished) {
+        return;
+      }
+      isFinished = true;
+
+      this.endBreak(breakIndex, status, snapshot, error);
+    };
+
+    const adContainer = new AdContainer({
+      vastUrl: adBreak.vastUrl,
+      vastUrls: adBreak.vastUrls,
+      tagTimeout: this.config.tagTimeout,
+      timeouts: this.config.timeouts,
+      videoElement: adElement,
+      loggerCallback: this.config.loggerCallback,
+      proxyConfig: this.config.proxyConfig,
+      vastResolverUrl: this.config.vastResolverUrl,
+      transport: this.config.transport,
+      trackerTransport: this.config.trackerTransport,
+      verifyTrackers: this.config.verifyTrackers,
+      macros: this.config.macros,
+      companionSlots: this.config.companionSlots,
+      autoPlay: true,
+      onComplete: () => finish('completed'),
+      onError: (error) => finish('failed', error),
+      onViewableImpression: this.config.onViewableImpression,
+      autoPause: this.config.autoPause,
+      mediaSourceAdapters: this.config.mediaSourceAdapters,
+      debug: this.config.debug,
+    });
+    this.adContainer = adContainer;
+
+    // Sadece NonLinear: overlay content'in üzerinde kalır, content'i geri ver ve devam ettir
+    adContainer.on('loaded', ({ isOverlay }) => {
+      if (!isOverlay) {
+        return;
+      }
+
+      this.log(`[AdScheduler] Break ${breakState.id} is a NonLinear overlay, resuming content`);
+      this.isOverlayBreak = true;
+      if (this.adVideoElement) {
+        this.adVideoElement.style.display = 'none';
+      }
+      this.restoreContent(snapshot, adBreak.offset === 'post');
+    });
+
+    try {
+      await adContainer.init();
+    } catch (error) {
+      // Scheduler destroy edildiyse (reklam iptal) content'e dokunulmaz
+      if (adContainer.isDestroyed()) {
+        return;
+      }
+
+      finish('failed', error);
+    }
+  }
+
+  /**
+   * Break'i bitir ve content'i geri yükle
+   * NonLinear overlay break'inde content zaten oynuyor (snapshot null verilebilir)
+   */
+  private endBreak(
+    breakIndex: number,
+    status: AdBreakStatus,
+    snapshot: ContentSnapshot | null,
+    error?: unknown
+  ): void {
+    const breakState = this.breakStates[breakIndex];
+    const wasOverlay = this.isOverlayBreak;
+    this.isOverlayBreak = false;
+
+    this.log(`[AdScheduler] Break ${breakState.id} ${status}`, status === 'failed');
+
+    if (this.adContainer) {
+      this.adContainer.destroy();
+      this.adContainer = null;
+    }
+
+    if (this.adVideoElement) {
+      this.adVideoElement.style.display = 'none';
+    }
+
+    if (status === 'failed') {
+      breakState.errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    this.activeBreakIndex = null;
+    this.setBreakStatus(breakIndex, status);
+
+    if (!wasOverlay && snapshot) {
+      this.restoreContent(snapshot, this.breaks[breakIndex].offset === 'post');
+    }
+  }
+
+  /**
+   * Content'in src, pozisyon ve oynatma durumunu geri yükle
+   *
+   * @param snapshot - Break öncesi content durumu
+   * @param isPostroll - Post-roll sonrası content tekrar oynatılmaz
+   */
+  private restoreContent(snapshot: ContentSnapshot, isPostroll: boolean): void {
+    const content = this.contentElement;
+    const shouldPlay = snapshot.wasPlaying && !isPostroll;
+
+    const resume = () => {
+      if (Math.abs(content.currentTime - snapshot.currentTime) > 0.5) {
+        content.currentTime = snapshot.currentTime;
+      }
+
+      if (shouldPlay) {
+        content.play().catch((error) => {
+          this.log(`[AdScheduler] Content resume failed: ${error.message}`, true);
+        });
+      }
+    };
+
+    // Reklam ayrı elementte oynadıysa (veya overlay ise) content src'si değişmedi
+    if (!this.contentSrc || this.hasContentSrc()) {
+      resume();
+      return;
+    }
+
+    this.log('[AdScheduler] Restoring content src');
+
+    const onLoadedMetadata = () => {
+      content.removeEventListener('loadedmetadata', onLoadedMetadata);
+      resume();
+    };
+
+    content.addEventListener('loadedmetadata', onLoadedMetadata);
+    content.src = this.contentSrc;
+    content.load();
+  }
+
+  /**
+   * Content elementinde content video'su yüklü mü? (relative contentSrc mutlak URL'e çevrilir)
+   */
+  private hasContentSrc(): boolean {
+    const currentSrc = this.contentElement.currentSrc || this.contentElement.getAttribute('src');
+    if (!currentSrc) {
+      return false;
+    }
+
+    return new URL(currentSrc, document.baseURI).href === new URL(this.contentSrc, document.baseURI).href;
+  }
+
+  /**
+   * Break durumunu güncelle ve state'i bildir
+   */
+  private setBreakStatus(breakIndex: number, status: AdBreakStatus): void {
+    this.breakStates[breakIndex] = {
+      ...this.breakStates[breakIndex],
+      status,
+    };
+
+    this.emitState();
+  }
+
+  /**
+   * State değişikliğini bildir
+   */
+  private emitState(): void {
+    this.config.onStateChange?.(this.getState());
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.config.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
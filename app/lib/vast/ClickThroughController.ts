@@ -0,0 +1,104 @@
+/**
+ * Click-Through Controller - Linear Reklam Tıklama Alanı
+ *
+ * Bu sınıf video'nun üzerine şeffaf, tıklanabilir bir alan yerleştirir.
+ * Tıklamada ne yapılacağına (ClickThrough açma, ClickTracking, pause/resume)
+ * AdContainer karar verir; bu sınıf sadece UI'dır.
+ *
+ * ÖZELLIKLER:
+ * - Video'nun parent element'ine absolute pozisyonlu şeffaf katman
+ * - Native video kontrolleri kullanılabilsin diye alt kısım açık bırakılır
+ * - Skip butonu (z-index) tıklama alanının üzerinde kalır
+ */
+
+import type { ClickThroughControllerConfig } from './types';
+
+/**
+ * Native video kontrol çubuğu için açık bırakılan alan (px)
+ */
+const CONTROLS_HEIGHT = 48;
+
+export class ClickThroughController {
+  // Konfigürasyon
+  private videoElement: HTMLVideoElement;
+  private onClick: () => void;
+  private debug: boolean;
+
+  // Tıklama alanı
+  private clickElement: HTMLDivElement | null = null;
+
+  // Parent'ın orijinal position değeri (restore için)
+  private originalParentPosition: string | null = null;
+
+  constructor(config: ClickThroughControllerConfig) {
+    this.videoElement = config.videoElement;
+    this.onClick = config.onClick;
+    this.debug = config.debug || false;
+  }
+
+  /**
+   * Tıklama alanını video'nun üzerine yerleştir
+   */
+  init(): void {
+    const parent = this.videoElement.parentElement;
+    if (!parent) {
+      this.log('[ClickThroughController] Video element has no parent, cannot attach click area', true);
+      return;
+    }
+
+    // Alan absolute konumlanacağı için parent'ı positioned yap
+    if (getComputedStyle(parent).position === 'static') {
+      this.originalParentPosition = parent.style.position;
+      parent.style.position = 'relative';
+    }
+
+    const clickElement = document.createElement('div');
+    clickElement.setAttribute('role', 'link');
+    clickElement.setAttribute('aria-label', 'Visit advertiser');
+    clickElement.style.position = 'absolute';
+    clickElement.style.top = '0';
+    clickElement.style.left = '0';
+    clickElement.style.right = '0';
+    clickElement.style.bottom = `${CONTROLS_HEIGHT}px`;
+    clickElement.style.cursor = 'pointer';
+    clickElement.style.zIndex = '10001';
+    clickElement.addEventListener('click', (event) => {
+      event.stopPropagation();
+      this.onClick();
+    });
+
+    parent.appendChild(clickElement);
+    this.clickElement = clickElement;
+
+    this.log('[ClickThroughController] Click area attached');
+  }
+
+  /**
+   * Tıklama alanını kaldır
+   */
+  destroy(): void {
+    if (this.clickElement) {
+      this.clickElement.parentNode?.removeChild(this.clickElement);
+      this.clickElement = null;
+    }
+
+    if (this.originalParentPosition !== null && this.videoElement.parentElement) {
+      this.videoElement.parentElement.style.position = this.originalParentPosition;
+      this.originalParentPosition = null;
+    }
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
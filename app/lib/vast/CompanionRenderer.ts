@@ -0,0 +1,133 @@
+/**
+ * Companion Renderer - Companion Reklamların Slot'lara Yerleştirilmesi
+ *
+ * Bu sınıf parse edilmiş companion reklamları publisher'ın belirlediği
+ * slot element'lerine render eder ve creativeView tracking'ini fire eder.
+ *
+ * SLOT EŞLEŞTİRME:
+ * 1. Slot boyutuyla birebir aynı boyuttaki companion
+ * 2. Slot'a sığan en büyük companion
+ * 3. Slot boyutu verilmemişse sıradaki companion
+ *
+ * Her companion en fazla bir slot'a render edilir.
+ */
+
+import { renderCreativeResource } from './ResourceRenderer';
+import type {
+  CompanionRendererConfig,
+  CompanionSlot,
+  CompanionAd,
+  VastEventType,
+} from './types';
+
+export class CompanionRenderer {
+  // Konfigürasyon
+  private slots: CompanionSlot[];
+  private onFire: (eventType: VastEventType, urls: string[]) => void;
+  private debug: boolean;
+
+  // Render edilen element'ler (cleanup için)
+  private renderedElements: HTMLElement[] = [];
+
+  constructor(config: CompanionRendererConfig) {
+    this.slots = config.slots;
+    this.onFire = config.onFire;
+    this.debug = config.debug || false;
+  }
+
+  /**
+   * Companion'ları slot'lara render et
+   *
+   * @param companions - Parse edilmiş companion reklamlar
+   * @returns Render edilen companion'lar
+   */
+  render(companions: CompanionAd[]): CompanionAd[] {
+    this.clear();
+
+    const available = [...companions];
+    const rendered: CompanionAd[] = [];
+
+    this.slots.forEach((slot) => {
+      const companion = this.pickCompanion(slot, available);
+      if (!companion) {
+        this.log(`[CompanionRenderer] No companion fits slot ${slot.width}x${slot.height}`);
+        return;
+      }
+
+      const element = renderCreativeResource(companion.resources, {
+        width: companion.width,
+        height: companion.height,
+        clickThrough: companion.clickThrough,
+        altText: companion.altText,
+      });
+
+      if (!element) {
+        this.log(`[CompanionRenderer] Companion ${companion.id || ''} has no renderable resource`);
+        return;
+      }
+
+      available.splice(available.indexOf(companion), 1);
+      slot.element.appendChild(element);
+      this.renderedElements.push(element);
+      rendered.push(companion);
+
+      this.log(`[CompanionRenderer] Rendered companion ${companion.width}x${companion.height}`);
+
+      // Companion görüntülendi
+      const creativeViewUrls = companion.tracking.CreativeView || [];
+      if (creativeViewUrls.length > 0) {
+        this.onFire('CreativeView', creativeViewUrls);
+      }
+    });
+
+    return rendered;
+  }
+
+  /**
+   * Render edilen companion'ları slot'lardan kaldır
+   */
+  clear(): void {
+    this.renderedElements.forEach((element) => {
+      element.parentNode?.removeChild(element);
+    });
+    this.renderedElements = [];
+  }
+
+  /**
+   * Slot için en uygun companion'ı seç
+   */
+  private pickCompanion(slot: CompanionSlot, companions: CompanionAd[]): CompanionAd | undefined {
+    // Slot boyutu yoksa sıradakini al
+    if (!slot.width || !slot.height) {
+      return companions[0];
+    }
+
+    const slotWidth = slot.width;
+    const slotHeight = slot.height;
+
+    // Birebir eşleşme
+    const exact = companions.find((c) => c.width === slotWidth && c.height === slotHeight);
+    if (exact) {
+      return exact;
+    }
+
+    // Slot'a sığan en büyük companion
+    return companions
+      .filter((c) => c.width <= slotWidth && c.height <= slotHeight)
+      .sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
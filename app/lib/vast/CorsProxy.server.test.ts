@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getClientIp, isHostAllowed, proxyRequest } from './CorsProxy.server';
+import type { CorsProxyConfig } from './types';
+
+const CONFIG: CorsProxyConfig = {
+  allowedHosts: ['*.doubleclick.net', 'ads.example.com'],
+  maxResponseBytes: 16,
+};
+
+function proxied(url: string, init?: RequestInit): Request {
+  return new Request(`https://app.example.com/api/proxy?url=${encodeURIComponent(url)}`, init);
+}
+
+describe('CorsProxy', () => {
+  describe('isHostAllowed', () => {
+    it('matches exact hosts case-insensitively', () => {
+      expect(isHostAllowed('ADS.example.com', CONFIG.allowedHosts)).toBe(true);
+      expect(isHostAllowed('cdn.example.com', CONFIG.allowedHosts)).toBe(false);
+    });
+
+    it('matches a wildcard domain and its subdomains only', () => {
+      expect(isHostAllowed('doubleclick.net', CONFIG.allowedHosts)).toBe(true);
+      expect(isHostAllowed('pubads.g.doubleclick.net', CONFIG.allowedHosts)).toBe(true);
+      expect(isHostAllowed('evil-doubleclick.net', CONFIG.allowedHosts)).toBe(false);
+      expect(isHostAllowed('doubleclick.net.evil.com', CONFIG.allowedHosts)).toBe(false);
+    });
+  });
+
+  describe('proxyRequest', () => {
+    const fetchMock = vi.fn<typeof fetch>();
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      fetchMock.mockReset();
+      vi.unstubAllGlobals();
+    });
+
+    it('refuses hosts outside the allowlist without fetching', async () => {
+      const response = await proxyRequest(proxied('https://evil.example.org/vast.xml'), CONFIG);
+
+      expect(response.status).toBe(403);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('refuses a redirect to a host outside the allowlist', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest/meta-data' } })
+      );
+
+      const response = await proxyRequest(proxied('https://ads.example.com/vast.xml'), CONFIG);
+
+      expect(response.status).toBe(403);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects non-http(s) URLs', async () => {
+      const response = await proxyRequest(proxied('file:///etc/passwd'), CONFIG);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('proxies allowed hosts with CORS and security headers', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('<VAST/>', { status: 200, headers: { 'Content-Type': 'application/xml' } })
+      );
+
+      const response = await proxyRequest(proxied('https://ads.example.com/vast.xml'), CONFIG);
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('<VAST/>');
+      expect(response.headers.get('content-type')).toBe('application/xml');
+      expect(response.headers.get('access-control-allow-origin')).toBe('*');
+      expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+      expect(response.headers.get('cache-control')).toBe('no-store');
+    });
+
+    it('refuses HTML upstream responses', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('<script></script>', { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+      );
+
+      const response = await proxyRequest(proxied('https://ads.example.com/creative'), CONFIG);
+
+      expect(response.status).toBe(502);
+      expect(response.headers.get('content-security-policy')).toContain('sandbox');
+    });
+
+    it('refuses responses whose Content-Length exceeds the limit', async () => {
+      fetchMock.mockResolvedValueOnce(
+        new Response('x'.repeat(32), { status: 200, headers: { 'Content-Length': '32' } })
+      );
+
+      const response = await proxyRequest(proxied('https://ads.example.com/vast.xml'), CONFIG);
+
+      expect(response.status).toBe(502);
+      expect(await response.text()).toContain('too large');
+    });
+
+    it('refuses streamed responses that exceed the limit', async () => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode('x'.repeat(10)));
+          controller.enqueue(encoder.encode('x'.repeat(10)));
+          controller.close();
+        },
+      });
+      fetchMock.mockResolvedValueOnce(new Response(body, { status: 200 }));
+
+      const response = await proxyRequest(proxied('https://ads.example.com/vast.xml'), CONFIG);
+
+      expect(response.status).toBe(502);
+      expect(await response.text()).toContain('too large');
+    });
+
+    it('returns 204 tracker responses without a body', async () => {
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      const response = await proxyRequest(proxied('https://ads.example.com/impression'), CONFIG);
+
+      expect(response.status).toBe(204);
+    });
+  });
+
+  describe('getClientIp', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('ignores a client supplied X-Forwarded-For without a trusted header', () => {
+      const request = new Request('https://app.example.com/', { headers: { 'X-Forwarded-For': '1.2.3.4' } });
+
+      expect(getClientIp(request)).toBeUndefined();
+    });
+
+    it('takes the rightmost value of the configured trusted header', () => {
+      vi.stubEnv('VAST_TRUSTED_IP_HEADER', 'x-forwarded-for');
+      const request = new Request('https://app.example.com/', {
+        headers: { 'X-Forwarded-For': '1.2.3.4, 203.0.113.7' },
+      });
+
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it("prefers Netlify's client connection IP", () => {
+      vi.stubEnv('VAST_TRUSTED_IP_HEADER', 'x-forwarded-for');
+      const request = new Request('https://app.example.com/', {
+        headers: { 'x-nf-client-connection-ip': '198.51.100.1', 'X-Forwarded-For': '1.2.3.4' },
+      });
+
+      expect(getClientIp(request)).toBe('198.51.100.1');
+    });
+  });
+});
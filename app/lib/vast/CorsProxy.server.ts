@@ -0,0 +1,439 @@
+/**
+ * CORS Proxy (Server) - First-party VAST ve Tracker Proxy'si
+ *
+ * Public proxy'lerin (cors-anywhere, allorigins) yerine uygulamanın kendi
+ * route'u üzerinden VAST fetch'leri ve tracker ping'leri yapılır.
+ * /api/proxy route'u kullanır (ProxyType 'first-party').
+ *
+ * GÜVENLİK:
+ * - Sadece allowlist'teki host'lar proxy'lenir (redirect'lerin her adımı dahil)
+ * - Sadece http(s); upstream'e her zaman GET gider (beacon POST'ları dahil)
+ * - Upstream response boyutu ve süresi sınırlı
+ * - Cookie ve Authorization gibi header'lar iletilmez
+ * - HTML response'lar reddedilir (VAST ve tracker'lar HTML dönmez; creative HTML'i
+ *   bizim origin'imizde çalışırdı), tüm response'lar CSP sandbox ve nosniff ile döner
+ *
+ * HEDEFLEME:
+ * - Caller'ın User-Agent, Accept-Language ve IP'si ad server'a iletilir
+ * - IP: Netlify'da x-nf-client-connection-ip; diğer deployment'larda (Docker / react-router-serve)
+ *   önündeki reverse proxy'nin set ettiği header VAST_TRUSTED_IP_HEADER env'i ile verilir
+ *
+ * DOĞRULAMA:
+ * - Redirect olduysa takip edilen zincir X-Redirect-Chain header'ında döner
+ *
+ * CACHE:
+ * - Upstream'in Cache-Control/ETag/Last-Modified header'ları korunur
+ * - Upstream cache bilgisi vermezse no-store (VAST auction'ları ve tracker'lar cache'lenmez)
+ */
+
+import { REDIRECT_CHAIN_HEADER } from './Transport';
+import type { CorsProxyConfig } from './types';
+
+/**
+ * Env verilmezse izin verilen host'lar (yaygın ad server'lar)
+ * Kullanıcıların içerik barındırabildiği host'lar (raw.githubusercontent.com vb.)
+ * eklenmez: proxy keyfi içeriği bizim origin'imizden sunmuş olurdu
+ */
+const DEFAULT_ALLOWED_HOSTS = ['*.doubleclick.net', '*.googlesyndication.com', '*.adnxs.com'];
+
+/**
+ * Development'ta ek olarak izin verilen host'lar (public/*.xml test VAST'ları ve httpbin tracker'ları)
+ */
+const DEVELOPMENT_ALLOWED_HOSTS = ['localhost', '127.0.0.1', 'httpbin.org'];
+
+/**
+ * Default upstream response limiti (byte)
+ */
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+
+/**
+ * Default upstream timeout (ms)
+ */
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Default maksimum redirect sayısı
+ */
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * Caller'dan upstream'e iletilen header'lar
+ */
+const FORWARDED_HEADERS = ['user-agent', 'accept', 'accept-language'];
+
+/**
+ * Upstream'den caller'a aktarılan header'lar
+ */
+const PASSTHROUGH_HEADERS = ['content-type', 'cache-control', 'etag', 'last-modified', 'expires'];
+
+/**
+ * Proxy'lenmeyen content type'lar (ad server'ların HTML creative'leri bizim origin'imizde çalışırdı)
+ */
+const BLOCKED_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * Body taşıyamayan HTTP status'ları
+ */
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+/**
+ * Tüm proxy response'larına eklenen CORS header'ları
+ */
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Accept, Content-Type',
+  'Access-Control-Max-Age': '86400',
+  'Access-Control-Expose-Headers': REDIRECT_CHAIN_HEADER,
+};
+
+/**
+ * Tüm proxy response'larına eklenen güvenlik header'ları (içerik doğrudan açılsa da script çalışmaz)
+ */
+const SECURITY_HEADERS: Record<string, string> = {
+  'Content-Security-Policy': "sandbox; default-src 'none'",
+  'X-Content-Type-Options': 'nosniff',
+};
+
+/**
+ * Caller'a HTTP status ile dönülecek proxy hatası
+ */
+class ProxyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * ?url= parametresindeki adresi proxy'le
+ *
+ * @param request - Caller'ın request'i (GET/HEAD veya beacon POST'u)
+ * @param config - Allowlist ve limitler
+ * @returns Upstream response'u (CORS header'ları ile) veya proxy hatası
+ */
+export async function proxyRequest(request: Request, config: CorsProxyConfig): Promise<Response> {
+  const timeout = config.timeout ?? DEFAULT_TIMEOUT;
+
+  const controller = new AbortController();
+  const abortFromCaller = () => controller.abort();
+  request.signal.addEventListener('abort', abortFromCaller);
+
+  let isTimedOut = false;
+  const timer = setTimeout(() => {
+    isTimedOut = true;
+    controller.abort();
+  }, timeout);
+
+  try {
+    const targetUrl = parseTargetUrl(new URL(request.url).searchParams.get('url'));
+    const { upstream, redirectChain } = await fetchUpstream(
+      targetUrl,
+      getForwardedHeaders(request),
+      config,
+      controller.signal
+    );
+
+    const contentType = (upstream.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    if (BLOCKED_CONTENT_TYPES.includes(contentType)) {
+      await upstream.body?.cancel();
+      throw new ProxyError(502, `Upstream content type not allowed: ${contentType}`);
+    }
+
+    const body = await readBody(upstream, config.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES);
+
+    // 204/304 gibi status'lar body taşıyamaz (tracker pixel'leri çoğunlukla 204)
+    const hasBody = request.method !== 'HEAD' && !NULL_BODY_STATUSES.includes(upstream.status);
+
+    return new Response(hasBody ? body : null, {
+      status: upstream.status,
+      headers: getResponseHeaders(upstream, redirectChain),
+    });
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      return errorResponse(error.status, error.message);
+    }
+
+    if (isTimedOut) {
+      return errorResponse(504, `Upstream did not respond within ${timeout}ms`);
+    }
+
+    return errorResponse(502, `Upstream request failed: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    clearTimeout(timer);
+    request.signal.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+/**
+ * CORS preflight (OPTIONS) response'u
+ */
+export function preflightResponse(): Response {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Proxy ve VAST resolver'ın host allowlist'i
+ * VAST_PROXY_ALLOWED_HOSTS env'i (virgülle ayrılmış) verilmezse default'lar
+ * (development'ta test VAST'larının host'ları dahil).
+ * Uygulamanın kendi host'u her durumda eklenir (public/ altındaki test VAST'ları).
+ */
+export function getAllowedHosts(): string[] {
+  const envHosts = process.env.VAST_PROXY_ALLOWED_HOSTS;
+  const hosts = !envHosts
+    ? process.env.NODE_ENV === 'production'
+      ? DEFAULT_ALLOWED_HOSTS
+      : [...DEFAULT_ALLOWED_HOSTS, ...DEVELOPMENT_ALLOWED_HOSTS]
+    : envHosts.split(',').filter((host) => host.trim().length > 0);
+
+  const appHost = getAppHost();
+  return appHost ? [...hosts, appHost] : hosts;
+}
+
+/**
+ * Uygulamanın kendi host'u - VAST_APP_URL env'i, yoksa Netlify'ın set ettiği URL.
+ * Request'in Host header'ı client kontrolünde olduğu için kullanılmaz.
+ */
+function getAppHost(): string | undefined {
+  const appUrl = process.env.VAST_APP_URL || process.env.URL;
+  if (!appUrl) return undefined;
+
+  try {
+    return new URL(appUrl).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Platformun veya güvenilen reverse proxy'nin verdiği client IP'si
+ * - Netlify: x-nf-client-connection-ip
+ * - Diğerleri: VAST_TRUSTED_IP_HEADER env'indeki header (örn. nginx'in set ettiği x-real-ip);
+ *   liste ise (x-forwarded-for) en sağdaki, yani güvenilen proxy'nin eklediği değer
+ * Env verilmezse client'ın kendi gönderdiği X-Forwarded-For / X-Real-IP header'larına güvenilmez
+ */
+export function getClientIp(request: Request): string | undefined {
+  const netlifyIp = request.headers.get('x-nf-client-connection-ip');
+  if (netlifyIp) {
+    return netlifyIp;
+  }
+
+  const trustedHeader = process.env.VAST_TRUSTED_IP_HEADER;
+  const value = trustedHeader ? request.headers.get(trustedHeader) : null;
+  if (!value) {
+    return undefined;
+  }
+
+  const addresses = value.split(',').map((address) => address.trim()).filter((address) => address.length > 0);
+  return addresses[addresses.length - 1];
+}
+
+/**
+ * URL'i allowlist kontrolü ile fetch et (redirect'lerin her adımı dahil)
+ * VAST resolver'ın wrapper zinciri için (host allowlist'te değilse ProxyError)
+ *
+ * @param url - Hedef URL (sadece http(s))
+ * @param headers - Upstream'e gönderilecek header'lar
+ * @param config - Allowlist ve redirect limiti
+ * @param signal - İptal signal'i
+ */
+export async function fetchAllowedUrl(
+  url: string,
+  headers: Record<string, string>,
+  config: CorsProxyConfig,
+  signal?: AbortSignal
+): Promise<Response> {
+  const { upstream } = await fetchUpstream(parseTargetUrl(url), headers, config, signal);
+  return upstream;
+}
+
+/**
+ * Host allowlist'te mi? ("*.example.com" alt domain'leri ve example.com'u kapsar)
+ */
+export function isHostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+
+  return allowedHosts.some((pattern) => {
+    const allowed = pattern.trim().toLowerCase();
+
+    if (allowed.startsWith('*.')) {
+      const domain = allowed.slice(2);
+      return host === domain || host.endsWith(`.${domain}`);
+    }
+
+    return host === allowed;
+  });
+}
+
+/**
+ * Hedef URL'i doğrula (sadece mutlak http(s))
+ */
+function parseTargetUrl(value: string | null): URL {
+  if (!value) {
+    throw new ProxyError(400, 'Missing url parameter');
+  }
+
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return url;
+    }
+  } catch {
+    // Aşağıda 400
+  }
+
+  throw new ProxyError(400, `Invalid url parameter: ${value}`);
+}
+
+/**
+ * Upstream'i fetch et, redirect'leri allowlist kontrolü ile elle takip et
+ *
+ * @returns Son response ve istek atılan URL'ler (hedef URL dahil)
+ */
+async function fetchUpstream(
+  targetUrl: URL,
+  headers: Record<string, string>,
+  config: CorsProxyConfig,
+  signal?: AbortSignal
+): Promise<{ upstream: Response; redirectChain: string[] }> {
+  const maxRedirects = config.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const redirectChain: string[] = [];
+  let url = targetUrl;
+
+  for (let redirects = 0; ; redirects++) {
+    if (!isHostAllowed(url.hostname, config.allowedHosts)) {
+      throw new ProxyError(403, `Host not allowed: ${url.hostname}`);
+    }
+
+    redirectChain.push(url.href);
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers,
+      redirect: 'manual',
+      signal,
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { upstream: response, redirectChain };
+    }
+
+    if (redirects >= maxRedirects) {
+      throw new ProxyError(502, `Too many redirects (max ${maxRedirects})`);
+    }
+
+    await response.body?.cancel();
+    url = parseTargetUrl(new URL(location, url).href);
+  }
+}
+
+/**
+ * Upstream body'sini boyut limiti ile oku
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  const contentLength = parseInt(response.headers.get('content-length') || '', 10);
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    throw new ProxyError(502, `Upstream response too large (${contentLength} > ${maxBytes} bytes)`);
+  }
+
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new ProxyError(502, `Upstream response too large (> ${maxBytes} bytes)`);
+    }
+
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+
+  return body;
+}
+
+/**
+ * Upstream'e iletilecek header'lar (hedefleme için caller'ın UA ve IP'si)
+ */
+function getForwardedHeaders(request: Request): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  FORWARDED_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) {
+      headers[name] = value;
+    }
+  });
+
+  // Client'ın gönderdiği X-Forwarded-For değil, platformun verdiği IP
+  const clientIp = getClientIp(request);
+  if (clientIp) {
+    headers['x-forwarded-for'] = clientIp;
+  }
+
+  return headers;
+}
+
+/**
+ * Caller'a dönülecek header'lar (CORS + upstream'in içerik ve cache header'ları + redirect zinciri)
+ */
+function getResponseHeaders(upstream: Response, redirectChain: string[]): Headers {
+  const headers = new Headers({ ...CORS_HEADERS, ...SECURITY_HEADERS });
+
+  PASSTHROUGH_HEADERS.forEach((name) => {
+    const value = upstream.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  });
+
+  if (!headers.has('cache-control')) {
+    headers.set('Cache-Control', 'no-store');
+  }
+
+  // URL.href boşluk içermez (percent-encoded)
+  if (redirectChain.length > 1) {
+    headers.set(REDIRECT_CHAIN_HEADER, redirectChain.join(' '));
+  }
+
+  // Ad server cevabı caller'ın UA'sına göre değişebilir
+  headers.set('Vary', 'User-Agent, Accept-Language');
+
+  return headers;
+}
+
+/**
+ * Proxy hatası response'u
+ */
+function errorResponse(status: number, message: string): Response {
+  return new Response(message, {
+    status,
+    headers: {
+      ...CORS_HEADERS,
+      ...SECURITY_HEADERS,
+      'Content-Type': 'text/plain',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Event Normalizer - VAST Tracking Event İsim Normalizasyonu
+ *
+ * VAST XML'deki `<Tracking event="...">` attribute'ları camelCase gelir
+ * ("start", "firstQuartile", "creativeView"), engine ise PascalCase
+ * VastEventType isimleriyle çalışır ("Start", "FirstQuartile").
+ * Bu modül ham event ismini case-insensitive olarak canonical tipe map eder.
+ *
+ * ÖZELLIKLER:
+ * - VAST 2.0 spec'teki tüm event isimleri
+ * - Case-insensitive eşleşme ("START", "Start", "start" aynı)
+ * - Yaygın VAST 3.0 alias'ları (exitFullscreen, skip, closeLinear)
+ * - Tanınmayan event'ler için null döner (caller saklar ve raporlar)
+ */
+
+import type { VastEventType } from './types';
+
+/**
+ * Lowercase ham event ismi -> canonical VastEventType
+ */
+const EVENT_NAME_MAP: Record<string, VastEventType> = {
+  // VAST 2.0 Linear + NonLinear tracking event'leri
+  creativeview: 'CreativeView',
+  start: 'Start',
+  firstquartile: 'FirstQuartile',
+  midpoint: 'Midpoint',
+  thirdquartile: 'ThirdQuartile',
+  complete: 'Complete',
+  mute: 'Mute',
+  unmute: 'Unmute',
+  pause: 'Pause',
+  rewind: 'Rewind',
+  resume: 'Resume',
+  fullscreen: 'Fullscreen',
+  expand: 'Expand',
+  collapse: 'Collapse',
+  acceptinvitation: 'AcceptInvitation',
+  close: 'Close',
+
+  // VAST 3.0 alias'ları (2.0 tag'lerinde de sıkça görülür)
+  exitfullscreen: 'ExitFullscreen',
+  skip: 'Skip',
+  closelinear: 'Close',
+};
+
+/**
+ * Ham event ismini canonical VastEventType'a çevir
+ *
+ * @param rawEvent - XML'deki event attribute değeri
+ * @returns Canonical event tipi, tanınmıyorsa null
+ */
+export function normalizeEventName(rawEvent: string): VastEventType | null {
+  const key = rawEvent.trim().toLowerCase();
+  return EVENT_NAME_MAP[key] ?? null;
+}
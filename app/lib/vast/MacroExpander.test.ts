@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { MacroExpander } from './MacroExpander';
+
+describe('MacroExpander', () => {
+  it('expands bracket, encoded bracket and underscore formats', () => {
+    const expander = new MacroExpander();
+
+    const url = expander.expand(
+      'https://track.example.com/error?a=[ERRORCODE]&b=%5BERRORCODE%5D&c=__ERRORCODE__',
+      { errorCode: 303 }
+    );
+
+    expect(url).toBe('https://track.example.com/error?a=303&b=303&c=303');
+  });
+
+  it('formats CONTENTPLAYHEAD as HH:MM:SS.mmm and encodes values', () => {
+    const expander = new MacroExpander();
+
+    const url = expander.expand('https://track.example.com/?t=[CONTENTPLAYHEAD]&asset=[ASSETURI]', {
+      contentPlayhead: 3723.5,
+      assetUri: 'https://cdn.example.com/ad.mp4?q=1',
+    });
+
+    expect(url).toBe(
+      'https://track.example.com/?t=01%3A02%3A03.500&asset=https%3A%2F%2Fcdn.example.com%2Fad.mp4%3Fq%3D1'
+    );
+  });
+
+  it('generates an 8 digit CACHEBUSTING value', () => {
+    const expander = new MacroExpander();
+
+    const first = expander.expand('[CACHEBUSTING]');
+    const second = expander.expand('[CACHEBUSTING]');
+
+    expect(first).toMatch(/^\d{8}$/);
+    expect(second).toMatch(/^\d{8}$/);
+  });
+
+  it('resolves custom macros case-insensitively, including functions', () => {
+    let calls = 0;
+    const expander = new MacroExpander({
+      macros: {
+        pageUrl: 'https://publisher.example.com/article',
+        counter: () => ++calls,
+      },
+    });
+
+    const url = expander.expand('https://track.example.com/?page=[PAGEURL]&n=[COUNTER]&n2=__counter__');
+
+    expect(url).toBe(
+      'https://track.example.com/?page=https%3A%2F%2Fpublisher.example.com%2Farticle&n=1&n2=2'
+    );
+  });
+
+  it('lets custom macros override built-ins', () => {
+    const expander = new MacroExpander({ macros: { CACHEBUSTING: '12345678' } });
+
+    expect(expander.expand('[CACHEBUSTING]')).toBe('12345678');
+  });
+
+  it('leaves macros without a value untouched', () => {
+    const expander = new MacroExpander();
+
+    expect(expander.expand('https://track.example.com/?e=[ERRORCODE]&x=[UNKNOWN]')).toBe(
+      'https://track.example.com/?e=[ERRORCODE]&x=[UNKNOWN]'
+    );
+  });
+});
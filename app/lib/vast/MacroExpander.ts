@@ -0,0 +1,111 @@
+/**
+ * Macro Expander - VAST URL Macro Substitution
+ *
+ * Tracker ve MediaFile URL'lerindeki macro placeholder'larını
+ * fire/oynatma anındaki gerçek değerlerle değiştirir.
+ *
+ * DESTEKLENEN FORMATLAR:
+ * - [MACRO]       (VAST standart formatı)
+ * - %5BMACRO%5D   (ad server'ın encode ettiği köşeli parantez)
+ * - __MACRO__     (bazı ad server'ların kullandığı alternatif format)
+ *
+ * BUILT-IN MACRO'LAR:
+ * - CACHEBUSTING: 8 haneli random sayı (her expand'de yeni)
+ * - TIMESTAMP: ISO 8601 zaman damgası
+ * - ERRORCODE: VAST error kodu (sadece error ping'lerinde)
+ * - CONTENTPLAYHEAD: Oynatma pozisyonu (HH:MM:SS.mmm)
+ * - ASSETURI: Oynatılan MediaFile URL'i
+ *
+ * Değerler encodeURIComponent ile encode edilir.
+ * Değeri bilinmeyen macro'lar olduğu gibi bırakılır (ad server kendisi çözebilir).
+ */
+
+import type { MacroContext, MacroExpanderConfig, MacroValue } from './types';
+
+/**
+ * [MACRO], %5BMACRO%5D ve __MACRO__ formatlarını yakalar
+ */
+const MACRO_PATTERN = /\[([A-Z0-9_]+)\]|%5B([A-Z0-9_]+)%5D|__([A-Z0-9_]+)__/gi;
+
+export class MacroExpander {
+  // Publisher macro'ları (uppercase isim -> değer)
+  private customMacros: Map<string, MacroValue> = new Map();
+
+  constructor(config: MacroExpanderConfig = {}) {
+    Object.entries(config.macros || {}).forEach(([name, value]) => {
+      this.customMacros.set(name.toUpperCase(), value);
+    });
+  }
+
+  /**
+   * URL template'indeki macro'ları expand et
+   *
+   * @param template - Macro içeren URL
+   * @param context - Runtime değerleri (error code, playhead, asset URI)
+   * @returns Macro'ları değiştirilmiş URL
+   */
+  expand(template: string, context: MacroContext = {}): string {
+    return template.replace(
+      MACRO_PATTERN,
+      (match, bracketName?: string, encodedName?: string, underscoreName?: string) => {
+        const name = (bracketName || encodedName || underscoreName || '').toUpperCase();
+        const value = this.resolve(name, context);
+
+        if (value === undefined) {
+          return match;
+        }
+
+        return encodeURIComponent(value);
+      }
+    );
+  }
+
+  /**
+   * Macro değerini çöz (önce custom, sonra built-in)
+   */
+  private resolve(name: string, context: MacroContext): string | undefined {
+    if (this.customMacros.has(name)) {
+      const macro = this.customMacros.get(name);
+      const value = typeof macro === 'function' ? macro() : macro;
+      return value === undefined ? undefined : String(value);
+    }
+
+    switch (name) {
+      case 'CACHEBUSTING':
+        return String(Math.floor(10000000 + Math.random() * 90000000));
+
+      case 'TIMESTAMP':
+        return new Date().toISOString();
+
+      case 'ERRORCODE':
+        return context.errorCode !== undefined ? String(context.errorCode) : undefined;
+
+      case 'CONTENTPLAYHEAD':
+        return context.contentPlayhead !== undefined
+          ? this.formatPlayhead(context.contentPlayhead)
+          : undefined;
+
+      case 'ASSETURI':
+        return context.assetUri;
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Saniyeyi HH:MM:SS.mmm formatına çevir
+   */
+  private formatPlayhead(seconds: number): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+  }
+
+}
@@ -0,0 +1,306 @@
+/**
+ * MediaFile Selector - Player ve Ağa Göre MediaFile Seçimi
+ *
+ * VastParser MediaFile'ları statik olarak sıralar (MP4 > WebM > diğer, sonra bitrate).
+ * Bu sınıf oynatma anında adayları ortama göre skorlar ve yeniden sıralar.
+ *
+ * SKORLAMA (her biri 0-1, ağırlıklı toplam):
+ * - playability: Adapter'ların canPlay() sonucu ('probably' > 'maybe', '' ise elenir)
+ *   (progressive için video.canPlayType, HLS/DASH için native veya publisher adapter'ı)
+ * - size: MediaFile çözünürlüğünün player'ın render boyutuna yakınlığı
+ * - bandwidth: Bitrate'in ölçülen/tahmin edilen bant genişliğine sığması
+ *   (adaptive stream'ler her bant genişliğine uyum sağlar)
+ *
+ * BANT GENİŞLİĞİ (öncelik sırasıyla):
+ * 1. Publisher'ın verdiği bandwidthKbps
+ * 2. Network Information API (navigator.connection.downlink / effectiveType)
+ * 3. probeUrl indirme süresi
+ * 4. Bilinmiyor (bandwidth skoru nötr)
+ *
+ * Publisher ağırlıkları ve scoreMediaFile ile skorlamayı değiştirebilir.
+ */
+
+import type {
+  MediaFile,
+  MediaSourceAdapter,
+  MediaFileScore,
+  MediaFileScoreContext,
+  MediaFileScoreWeights,
+  MediaFileSelectorConfig,
+} from './types';
+import { getStreamingFormat } from './MediaSourceAdapters';
+
+/**
+ * Default skor ağırlıkları
+ */
+const DEFAULT_WEIGHTS: MediaFileScoreWeights = {
+  playability: 1,
+  size: 1,
+  bandwidth: 1.5,
+};
+
+/**
+ * Bitrate için bant genişliğinde bırakılan pay (buffering'e karşı)
+ */
+const BANDWIDTH_HEADROOM = 0.8;
+
+/**
+ * effectiveType -> tahmini bant genişliği (kbps)
+ */
+const EFFECTIVE_TYPE_KBPS: Record<string, number> = {
+  'slow-2g': 50,
+  '2g': 150,
+  '3g': 700,
+  '4g': 5000,
+};
+
+/**
+ * Network Information API (henüz lib.dom'da yok)
+ */
+interface NetworkInformation {
+  downlink?: number;
+  effectiveType?: string;
+}
+
+export class MediaFileSelector {
+  // Konfigürasyon
+  private config: MediaFileSelectorConfig;
+  private videoElement: HTMLVideoElement;
+  private weights: MediaFileScoreWeights;
+  private adapters: MediaSourceAdapter[];
+
+  // Ölçülen bant genişliği (AdContainer ömrü boyunca bir kez ölçülür)
+  private bandwidthPromise: Promise<number | undefined> | null = null;
+
+  constructor(config: MediaFileSelectorConfig) {
+    this.config = config;
+    this.videoElement = config.videoElement;
+    this.weights = { ...DEFAULT_WEIGHTS, ...config.weights };
+    this.adapters = config.adapters;
+  }
+
+  /**
+   * MediaFile'ları skorla ve sırala
+   *
+   * @param mediaFiles - Parser'ın sıraladığı MediaFile'lar
+   * @returns Oynatılabilir MediaFile skorları (yüksek skor önce)
+   */
+  async rank(mediaFiles: MediaFile[]): Promise<MediaFileScore[]> {
+    const context = await this.getContext();
+
+    const scores = mediaFiles
+      .map((mediaFile) => this.score(mediaFile, context))
+      .filter((score) => score.playability > 0);
+
+    // Eşit skorda parser sırası korunur (sort stable)
+    scores.sort((a, b) => b.total - a.total);
+
+    this.log(
+      `[MediaFileSelector] Ranked ${scores.length}/${mediaFiles.length} MediaFiles ` +
+        `(player ${context.playerWidth}x${context.playerHeight}, ` +
+        `bandwidth ${context.bandwidthKbps ?? 'unknown'} kbps)`
+    );
+    scores.forEach((score) => {
+      this.log(
+        `[MediaFileSelector]   ${score.total.toFixed(2)} ` +
+          `(play ${score.playability}, size ${score.size.toFixed(2)}, bw ${score.bandwidth.toFixed(2)}) ` +
+          `${score.mediaFile.type} ${score.mediaFile.width}x${score.mediaFile.height} ` +
+          `${score.mediaFile.bitrate}kbps via ${score.adapter?.name}`
+      );
+    });
+
+    return scores;
+  }
+
+  /**
+   * Tek bir MediaFile'ı skorla
+   */
+  private score(mediaFile: MediaFile, context: MediaFileScoreContext): MediaFileScore {
+    const { playability, adapter } = this.scorePlayability(mediaFile);
+
+    const score: MediaFileScore = {
+      mediaFile,
+      playability,
+      adapter,
+      size: this.scoreSize(mediaFile, context),
+      bandwidth: this.scoreBandwidth(mediaFile, context),
+      total: 0,
+    };
+
+    score.total =
+      score.playability * this.weights.playability +
+      score.size * this.weights.size +
+      score.bandwidth * this.weights.bandwidth;
+
+    if (this.config.scoreMediaFile) {
+      score.total = this.config.scoreMediaFile(score, context);
+    }
+
+    return score;
+  }
+
+  /**
+   * Oynatılabilirlik: En iyi sonucu veren adapter seçilir
+   * Eşitlikte adapter sırası korunur (publisher adapter'ları önce)
+   */
+  private scorePlayability(mediaFile: MediaFile): {
+    playability: number;
+    adapter?: MediaSourceAdapter;
+  } {
+    let best: { playability: number; adapter?: MediaSourceAdapter } = { playability: 0 };
+
+    for (const adapter of this.adapters) {
+      let playability = 0;
+
+      switch (adapter.canPlay(mediaFile, this.videoElement)) {
+        case 'probably':
+          playability = 1;
+          break;
+        case 'maybe':
+          playability = 0.5;
+          break;
+      }
+
+      if (playability > best.playability) {
+        best = { playability, adapter };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Çözünürlüğün player boyutuna yakınlığı (piksel alanı oranı)
+   * Boyut bilinmiyorsa nötr
+   */
+  private scoreSize(mediaFile: MediaFile, context: MediaFileScoreContext): number {
+    const mediaArea = mediaFile.width * mediaFile.height;
+    const playerArea = context.playerWidth * context.playerHeight;
+
+    if (mediaArea <= 0 || playerArea <= 0) {
+      return 0.5;
+    }
+
+    return Math.min(mediaArea, playerArea) / Math.max(mediaArea, playerArea);
+  }
+
+  /**
+   * Bitrate'in bant genişliğine uygunluğu
+   * - Sığan bitrate'lerde yüksek olan tercih edilir (0.5-1)
+   * - Sığmayanlar taşma oranında cezalandırılır (0-0.5)
+   * - Adaptive stream'ler (HLS/DASH) bitrate'i ağa göre kendileri ayarlar (1)
+   */
+  private scoreBandwidth(mediaFile: MediaFile, context: MediaFileScoreContext): number {
+    if (getStreamingFormat(mediaFile.type)) {
+      return 1;
+    }
+
+    if (!context.bandwidthKbps || mediaFile.bitrate <= 0) {
+      return 0.5;
+    }
+
+    const budget = context.bandwidthKbps * BANDWIDTH_HEADROOM;
+
+    if (mediaFile.bitrate <= budget) {
+      return 0.5 + 0.5 * (mediaFile.bitrate / budget);
+    }
+
+    return 0.5 * (budget / mediaFile.bitrate);
+  }
+
+  /**
+   * Skorlama ortamı: player boyutu ve bant genişliği
+   */
+  private async getContext(): Promise<MediaFileScoreContext> {
+    const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+    return {
+      playerWidth: Math.round((this.videoElement.clientWidth || 0) * pixelRatio),
+      playerHeight: Math.round((this.videoElement.clientHeight || 0) * pixelRatio),
+      bandwidthKbps: await this.getBandwidth(),
+    };
+  }
+
+  /**
+   * Bant genişliği (kbps) - bir kez ölçülür, sonra cache'lenir
+   */
+  private getBandwidth(): Promise<number | undefined> {
+    if (!this.bandwidthPromise) {
+      this.bandwidthPromise = this.measureBandwidth();
+    }
+
+    return this.bandwidthPromise;
+  }
+
+  /**
+   * Bant genişliğini belirle (publisher > Network Information API > probe)
+   */
+  private async measureBandwidth(): Promise<number | undefined> {
+    if (this.config.bandwidthKbps) {
+      return this.config.bandwidthKbps;
+    }
+
+    const connection =
+      typeof navigator !== 'undefined'
+        ? (navigator as Navigator & { connection?: NetworkInformation }).connection
+        : undefined;
+
+    if (connection?.downlink) {
+      // downlink Mbps cinsinden
+      return connection.downlink * 1000;
+    }
+
+    if (connection?.effectiveType && EFFECTIVE_TYPE_KBPS[connection.effectiveType]) {
+      return EFFECTIVE_TYPE_KBPS[connection.effectiveType];
+    }
+
+    if (this.config.probeUrl) {
+      return this.probeBandwidth(this.config.probeUrl);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Probe dosyasını indirerek bant genişliğini ölç
+   */
+  private async probeBandwidth(probeUrl: string): Promise<number | undefined> {
+    try {
+      const startedAt = performance.now();
+      const separator = probeUrl.includes('?') ? '&' : '?';
+      const response = await fetch(`${probeUrl}${separator}_=${Date.now()}`, {
+        cache: 'no-store',
+        signal: this.config.signal,
+      });
+      const body = await response.arrayBuffer();
+      const elapsedMs = performance.now() - startedAt;
+
+      if (!response.ok || body.byteLength === 0 || elapsedMs <= 0) {
+        return undefined;
+      }
+
+      // bit / ms = kbps
+      const kbps = Math.round((body.byteLength * 8) / elapsedMs);
+      this.log(`[MediaFileSelector] Probe: ${body.byteLength} bytes in ${Math.round(elapsedMs)}ms = ${kbps} kbps`);
+
+      return kbps;
+    } catch (error) {
+      this.log(`[MediaFileSelector] Bandwidth probe failed: ${error instanceof Error ? error.message : error}`, true);
+      return undefined;
+    }
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.config.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
@@ -0,0 +1,118 @@
+/**
+ * Media Source Adapters - Progressive ve Streaming MediaFile Oynatma
+ *
+ * AdContainer MediaFile'ı video elementine doğrudan src atayarak değil,
+ * bir MediaSourceAdapter üzerinden bağlar. Böylece HLS/DASH gibi
+ * streaming formatlar publisher'ın player'ı ile oynatılabilir.
+ *
+ * BUILT-IN ADAPTER'LAR:
+ * - NativeHlsMediaSourceAdapter: Safari / iOS / Android gibi HLS'i native
+ *   oynatan tarayıcılar (canPlayType('application/vnd.apple.mpegurl'))
+ * - ProgressiveMediaSourceAdapter: MP4, WebM vb. (video.src)
+ *
+ * ÖZEL ADAPTER (örn: hls.js):
+ * ```typescript
+ * const hlsAdapter: MediaSourceAdapter = {
+ *   name: 'hls.js',
+ *   canPlay: (mediaFile) =>
+ *     getStreamingFormat(mediaFile.type) === 'hls' && Hls.isSupported() ? 'probably' : '',
+ *   attach(videoElement, url) {
+ *     hls = new Hls();
+ *     hls.loadSource(url);
+ *     hls.attachMedia(videoElement);
+ *   },
+ *   detach() {
+ *     hls?.destroy();
+ *     hls = null;
+ *   },
+ * };
+ *
+ * new AdContainer({ ..., mediaSourceAdapters: [hlsAdapter] });
+ * ```
+ */
+
+import type { MediaFile, MediaSourceAdapter, StreamingFormat } from './types';
+
+/**
+ * Streaming MIME type'ları (lowercase)
+ */
+const HLS_MIME_TYPES = [
+  'application/x-mpegurl',
+  'application/vnd.apple.mpegurl',
+  'audio/mpegurl',
+  'audio/x-mpegurl',
+];
+const DASH_MIME_TYPES = ['application/dash+xml'];
+
+/**
+ * MIME type'ın streaming formatı (progressive ise null)
+ */
+export function getStreamingFormat(type: string): StreamingFormat | null {
+  const lowerType = type.toLowerCase().split(';')[0].trim();
+
+  if (HLS_MIME_TYPES.includes(lowerType)) return 'hls';
+  if (DASH_MIME_TYPES.includes(lowerType)) return 'dash';
+
+  return null;
+}
+
+/**
+ * Native HLS (Safari, iOS, bazı Android tarayıcıları)
+ */
+export class NativeHlsMediaSourceAdapter implements MediaSourceAdapter {
+  readonly name = 'native-hls';
+
+  canPlay(mediaFile: MediaFile, videoElement: HTMLVideoElement): CanPlayTypeResult {
+    if (getStreamingFormat(mediaFile.type) !== 'hls' || typeof videoElement.canPlayType !== 'function') {
+      return '';
+    }
+
+    return videoElement.canPlayType('application/vnd.apple.mpegurl');
+  }
+
+  attach(videoElement: HTMLVideoElement, url: string): void {
+    videoElement.src = url;
+  }
+
+  detach(): void {
+    // src'yi bir sonraki attach / AdContainer.destroy değiştirir
+  }
+}
+
+/**
+ * Progressive download (MP4, WebM vb.)
+ */
+export class ProgressiveMediaSourceAdapter implements MediaSourceAdapter {
+  readonly name = 'progressive';
+
+  canPlay(mediaFile: MediaFile, videoElement: HTMLVideoElement): CanPlayTypeResult {
+    // Streaming manifest'ler src ile oynatılamaz (native HLS ayrı adapter'da)
+    if (getStreamingFormat(mediaFile.type)) {
+      return '';
+    }
+
+    // canPlayType yoksa (test ortamı vb.) 'maybe' kabul edilir
+    if (typeof videoElement.canPlayType !== 'function') {
+      return 'maybe';
+    }
+
+    const type = mediaFile.codec ? `${mediaFile.type}; codecs="${mediaFile.codec}"` : mediaFile.type;
+
+    return videoElement.canPlayType(type);
+  }
+
+  attach(videoElement: HTMLVideoElement, url: string): void {
+    videoElement.src = url;
+  }
+
+  detach(): void {
+    // src'yi bir sonraki attach / AdContainer.destroy değiştirir
+  }
+}
+
+/**
+ * Publisher adapter'ları + built-in adapter'lar (öncelik sırasıyla)
+ */
+export function createMediaSourceAdapters(customAdapters: MediaSourceAdapter[] = []): MediaSourceAdapter[] {
+  return [...customAdapters, new NativeHlsMediaSourceAdapter(), new ProgressiveMediaSourceAdapter()];
+}
@@ -0,0 +1,199 @@
+/**
+ * Overlay Renderer - NonLinear (Overlay) Reklam Gösterimi
+ *
+ * Bu sınıf NonLinear creative'leri content video'nun üzerine
+ * banner olarak yerleştirir ve kapatılabilir hale getirir.
+ *
+ * ÖZELLIKLER:
+ * - Video'nun parent element'ine absolute pozisyonlu overlay
+ * - Alt-orta konumlandırma, player genişliğine göre ölçekleme
+ * - Kapatma butonu (Close tracking)
+ * - creativeView tracking (gösterildiğinde)
+ * - Player genişliğine sığan NonLinear seçimi
+ */
+
+import { renderCreativeResource } from './ResourceRenderer';
+import type { OverlayRendererConfig, NonLinearAd, VastEventType } from './types';
+
+export class OverlayRenderer {
+  // Konfigürasyon
+  private videoElement: HTMLVideoElement;
+  private onFire: (eventType: VastEventType, urls: string[]) => void;
+  private onClose?: () => void;
+  private debug: boolean;
+
+  // Gösterilen overlay
+  private overlayElement: HTMLDivElement | null = null;
+  private currentNonLinear: NonLinearAd | null = null;
+
+  // Parent'ın orijinal position değeri (restore için)
+  private originalParentPosition: string | null = null;
+
+  constructor(config: OverlayRendererConfig) {
+    this.videoElement = config.videoElement;
+    this.onFire = config.onFire;
+    this.onClose = config.onClose;
+    this.debug = config.debug || false;
+  }
+
+  /**
+   * Player'a en uygun NonLinear'ı seç ve overlay olarak göster
+   *
+   * @param nonLinears - Parse edilmiş NonLinear reklamlar
+   * @returns Gösterilen NonLinear, gösterilemediyse null
+   */
+  show(nonLinears: NonLinearAd[]): NonLinearAd | null {
+    this.hide();
+
+    const parent = this.videoElement.parentElement;
+    if (!parent) {
+      this.log('[OverlayRenderer] Video element has no parent, cannot show overlay', true);
+      return null;
+    }
+
+    const nonLinear = this.pickNonLinear(nonLinears);
+    if (!nonLinear) {
+      this.log('[OverlayRenderer] No NonLinear to show', true);
+      return null;
+    }
+
+    const creative = renderCreativeResource(nonLinear.resources, {
+      width: nonLinear.width,
+      height: nonLinear.height,
+      clickThrough: nonLinear.clickThrough,
+    });
+
+    if (!creative) {
+      this.log('[OverlayRenderer] NonLinear has no renderable resource', true);
+      return null;
+    }
+
+    // Overlay absolute konumlanacağı için parent'ı positioned yap
+    if (getComputedStyle(parent).position === 'static') {
+      this.originalParentPosition = parent.style.position;
+      parent.style.position = 'relative';
+    }
+
+    // Overlay container (alt-orta)
+    const overlay = document.createElement('div');
+    overlay.style.position = 'absolute';
+    overlay.style.left = '50%';
+    overlay.style.bottom = '15%';
+    overlay.style.transform = 'translateX(-50%)';
+    overlay.style.maxWidth = '100%';
+    overlay.style.zIndex = '10001';
+    overlay.appendChild(creative);
+
+    // Kapatma butonu
+    const closeButton = document.createElement('button');
+    closeButton.type = 'button';
+    closeButton.textContent = '×';
+    closeButton.setAttribute('aria-label', 'Close ad');
+    closeButton.style.position = 'absolute';
+    closeButton.style.top = '-10px';
+    closeButton.style.right = '-10px';
+    closeButton.style.width = '20px';
+    closeButton.style.height = '20px';
+    closeButton.style.lineHeight = '18px';
+    closeButton.style.borderRadius = '50%';
+    closeButton.style.border = 'none';
+    closeButton.style.background = 'rgba(0, 0, 0, 0.75)';
+    closeButton.style.color = 'white';
+    closeButton.style.cursor = 'pointer';
+    closeButton.addEventListener('click', (event) => {
+      event.stopPropagation();
+      this.close();
+    });
+    overlay.appendChild(closeButton);
+
+    parent.appendChild(overlay);
+    this.overlayElement = overlay;
+    this.currentNonLinear = nonLinear;
+
+    this.log(`[OverlayRenderer] Showing NonLinear ${nonLinear.width}x${nonLinear.height}`);
+
+    // Overlay görüntülendi
+    this.fireEvent('CreativeView');
+
+    return nonLinear;
+  }
+
+  /**
+   * Kullanıcı kapattı: Close tracking fire et ve overlay'i kaldır
+   */
+  close(): void {
+    if (!this.overlayElement) {
+      return;
+    }
+
+    this.log('[OverlayRenderer] Overlay closed by user');
+    this.fireEvent('Close');
+    this.hide();
+    this.onClose?.();
+  }
+
+  /**
+   * Overlay'i tracking fire etmeden kaldır
+   */
+  hide(): void {
+    if (this.overlayElement) {
+      this.overlayElement.parentNode?.removeChild(this.overlayElement);
+      this.overlayElement = null;
+    }
+
+    if (this.originalParentPosition !== null && this.videoElement.parentElement) {
+      this.videoElement.parentElement.style.position = this.originalParentPosition;
+      this.originalParentPosition = null;
+    }
+
+    this.currentNonLinear = null;
+  }
+
+  /**
+   * Overlay gösteriliyor mu?
+   */
+  isVisible(): boolean {
+    return this.overlayElement !== null;
+  }
+
+  /**
+   * Player genişliğine sığan ilk NonLinear'ı seç (sığan yoksa ilki)
+   */
+  private pickNonLinear(nonLinears: NonLinearAd[]): NonLinearAd | undefined {
+    const playerWidth = this.videoElement.clientWidth;
+
+    if (playerWidth > 0) {
+      const fitting = nonLinears.find((nl) => nl.width <= playerWidth);
+      if (fitting) {
+        return fitting;
+      }
+    }
+
+    return nonLinears[0];
+  }
+
+  /**
+   * Gösterilen NonLinear'ın tracking URL'lerini fire et
+   */
+  private fireEvent(eventType: VastEventType): void {
+    const urls = this.currentNonLinear?.tracking[eventType] || [];
+
+    if (urls.length > 0) {
+      this.onFire(eventType, urls);
+    }
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
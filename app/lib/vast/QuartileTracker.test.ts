@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QuartileTracker } from './QuartileTracker';
+import type { VastEventType } from './types';
+
+/**
+ * play/pause event'lerini elle tetiklenen minimal video element'i
+ */
+class FakeVideo extends EventTarget {
+  paused = true;
+  muted = false;
+  currentTime = 0;
+  duration = 30;
+
+  playByUser(): void {
+    this.paused = false;
+    this.dispatchEvent(new Event('play'));
+  }
+
+  pauseNow(): void {
+    this.paused = true;
+    this.dispatchEvent(new Event('pause'));
+  }
+}
+
+describe('QuartileTracker', () => {
+  let video: FakeVideo;
+  let tracker: QuartileTracker;
+  let events: VastEventType[];
+
+  beforeEach(() => {
+    vi.stubGlobal('document', new EventTarget());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    video = new FakeVideo();
+    events = [];
+    tracker = new QuartileTracker({
+      videoElement: video as unknown as HTMLVideoElement,
+      trackingUrls: {} as Record<VastEventType, string[]>,
+      onFire: () => {},
+      onEvent: (eventType) => events.push(eventType),
+    });
+    tracker.init();
+
+    // Oynatma başladı ve ilerledi
+    video.playByUser();
+    video.currentTime = 5;
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('tracks a user pause and resume', () => {
+    video.pauseNow();
+    video.playByUser();
+
+    expect(events).toEqual(['Pause', 'Resume']);
+  });
+
+  it('does not track a system pause resumed by the system', () => {
+    tracker.markSystemPause();
+    video.pauseNow();
+    tracker.markSystemResume();
+    video.playByUser();
+
+    expect(events).toEqual([]);
+  });
+
+  it('tracks Resume when the user plays during a system pause', () => {
+    tracker.markSystemPause();
+    video.pauseNow();
+    video.playByUser();
+
+    expect(events).toEqual(['Resume']);
+  });
+
+  it('tracks later user pauses after a system pause and resume', () => {
+    tracker.markSystemPause();
+    video.pauseNow();
+    tracker.markSystemResume();
+    video.playByUser();
+
+    video.pauseNow();
+    video.playByUser();
+
+    expect(events).toEqual(['Pause', 'Resume']);
+  });
+
+  it('ignores a system resume without a system pause', () => {
+    tracker.markSystemResume();
+    video.pauseNow();
+    video.playByUser();
+
+    expect(events).toEqual(['Pause', 'Resume']);
+  });
+});
@@ -16,7 +16,15 @@
  * - ±0.5s tolerans (user seek durumları için)
  * - Fire-once guarantee (her quartile sadece bir kez)
  * - Progress-based detection (seek forward/backward uyumlu)
- * - Ek eventler: pause, resume, mute, unmute, fullscreen
+ * - Ek eventler: pause, resume, mute, unmute, fullscreen, exitFullscreen
+ * - Sistem pause'ları (auto-pause policy) Pause fire etmez; sistemin resume'u Resume fire etmez,
+ *   kullanıcının play'i ise her zaman Resume fire eder
+ * - Stream'lerde (HLS/DASH) video.duration sonsuz/bilinmiyorsa VAST Duration kullanılır
+ *
+ * FULLSCREEN:
+ * - Fullscreen API (standart + webkit prefix'li fullscreenchange)
+ * - iOS Safari video fullscreen'i (webkitbeginfullscreen / webkitendfullscreen)
+ * - Video'nun kendisi veya video'yu içeren bir element fullscreen ise fullscreen sayılır
  */
 
 import type { QuartileTrackerConfig, VastEventType, QuartileThreshold } from './types';
@@ -26,7 +34,9 @@ export class QuartileTracker {
   private videoElement: HTMLVideoElement;
   private trackingUrls: Record<VastEventType, string[]>;
   private onFire: (eventType: VastEventType, urls: string[]) => void;
+  private onEvent?: (eventType: VastEventType) => void;
   private tolerance: number;
+  private vastDuration?: number;
 
   // Quartile thresholds
   private readonly quartiles: QuartileThreshold[] = [
@@ -44,17 +54,25 @@ export class QuartileTracker {
     pause: () => void;
     play: () => void;
     volumechange: () => void;
+    fullscreenchange: () => void;
+    webkitbeginfullscreen: () => void;
+    webkitendfullscreen: () => void;
   };
 
   // State
   private wasPlaying: boolean = false;
   private wasMuted: boolean = false;
+  private wasFullscreen: boolean = false;
+  private isSystemPaused: boolean = false;
+  private isSystemResume: boolean = false;
 
   constructor(config: QuartileTrackerConfig) {
     this.videoElement = config.videoElement;
     this.trackingUrls = config.trackingUrls;
     this.onFire = config.onFire;
+    this.onEvent = config.onEvent;
     this.tolerance = config.tolerance || 0.5; // Default 0.5 saniye
+    this.vastDuration = config.duration;
 
     // Event handler'ları bind et (cleanup için)
     this.boundHandlers = {
@@ -63,6 +81,9 @@ export class QuartileTracker {
       pause: this.handlePause.bind(this),
       play: this.handlePlay.bind(this),
       volumechange: this.handleVolumeChange.bind(this),
+      fullscreenchange: this.handleFullscreenChange.bind(this),
+      webkitbeginfullscreen: () => this.setFullscreen(true),
+      webkitendfullscreen: () => this.setFullscreen(false),
     };
   }
 
@@ -79,9 +100,33 @@ export class QuartileTracker {
     this.videoElement.addEventListener('play', this.boundHandlers.play);
     this.videoElement.addEventListener('volumechange', this.boundHandlers.volumechange);
 
+    // Fullscreen değişiklikleri (document seviyesinde + iOS video event'leri)
+    document.addEventListener('fullscreenchange', this.boundHandlers.fullscreenchange);
+    document.addEventListener('webkitfullscreenchange', this.boundHandlers.fullscreenchange);
+    this.videoElement.addEventListener('webkitbeginfullscreen', this.boundHandlers.webkitbeginfullscreen);
+    this.videoElement.addEventListener('webkitendfullscreen', this.boundHandlers.webkitendfullscreen);
+
     // Initial state
     this.wasPlaying = !this.videoElement.paused;
     this.wasMuted = this.videoElement.muted;
+    this.wasFullscreen = this.isVideoFullscreen();
+  }
+
+  /**
+   * Sıradaki pause'u sistem pause'u olarak işaretle (Pause fire etmez)
+   */
+  markSystemPause(): void {
+    this.isSystemPaused = true;
+  }
+
+  /**
+   * Sıradaki play'i sistem resume'u olarak işaretle (auto-resume, MediaFile fallback)
+   * Sadece sistem pause'undan sonra geçerlidir; işaretlenmemiş play kullanıcınındır ve Resume fire eder
+   */
+  markSystemResume(): void {
+    if (this.isSystemPaused) {
+      this.isSystemResume = true;
+    }
   }
 
   /**
@@ -89,10 +134,10 @@ export class QuartileTracker {
    */
   private handleTimeUpdate(): void {
     const currentTime = this.videoElement.currentTime;
-    const duration = this.videoElement.duration;
+    const duration = this.getDuration();
 
     // Duration henüz yüklenmemişse skip et
-    if (!duration || duration === 0 || isNaN(duration)) {
+    if (!duration) {
       return;
     }
 
@@ -118,6 +163,24 @@ export class QuartileTracker {
     });
   }
 
+  /**
+   * Quartile hesabında kullanılacak süre (saniye)
+   * Live/event stream'lerde video.duration Infinity veya NaN olabilir; o zaman VAST Duration
+   */
+  private getDuration(): number | null {
+    const duration = this.videoElement.duration;
+
+    if (Number.isFinite(duration) && duration > 0) {
+      return duration;
+    }
+
+    if (this.vastDuration && this.vastDuration > 0) {
+      return this.vastDuration;
+    }
+
+    return null;
+  }
+
   /**
    * ended event handler - Video bittiğinde
    */
@@ -135,6 +198,12 @@ export class QuartileTracker {
    * pause event handler
    */
   private handlePause(): void {
+    if (this.isSystemPaused) {
+      console.log('[QuartileTracker] Video paused by system (not tracked)');
+      this.wasPlaying = false;
+      return;
+    }
+
     if (this.wasPlaying) {
       console.log('[QuartileTracker] Video paused');
       this.fireEvent('Pause');
@@ -146,6 +215,20 @@ export class QuartileTracker {
    * play event handler
    */
   private handlePlay(): void {
+    if (this.isSystemPaused) {
+      this.isSystemPaused = false;
+
+      if (this.isSystemResume) {
+        console.log('[QuartileTracker] Video resumed by system (not tracked)');
+        this.isSystemResume = false;
+        this.wasPlaying = true;
+        return;
+      }
+
+      // Sistem pause'u sırasında kullanıcı oynattı
+      console.log('[QuartileTracker] Video resumed by user after system pause');
+    }
+
     if (!this.wasPlaying && this.videoElement.currentTime > 0) {
       // Resume (ilk play değil, resume)
       console.log('[QuartileTracker] Video resumed');
@@ -172,6 +255,53 @@ export class QuartileTracker {
     }
   }
 
+  /**
+   * fullscreenchange / webkitfullscreenchange event handler
+   */
+  private handleFullscreenChange(): void {
+    this.setFullscreen(this.isVideoFullscreen());
+  }
+
+  /**
+   * Fullscreen state değiştiyse Fullscreen/ExitFullscreen fire et
+   */
+  private setFullscreen(isFullscreen: boolean): void {
+    if (isFullscreen === this.wasFullscreen) {
+      return;
+    }
+
+    if (isFullscreen) {
+      console.log('[QuartileTracker] Video entered fullscreen');
+      this.fireEvent('Fullscreen');
+    } else {
+      console.log('[QuartileTracker] Video exited fullscreen');
+      this.fireEvent('ExitFullscreen');
+    }
+    this.wasFullscreen = isFullscreen;
+  }
+
+  /**
+   * Video (veya video'yu içeren bir element) fullscreen mi?
+   * Sayfa içinde tam ekran layout (CSS) fullscreen sayılmaz
+   */
+  private isVideoFullscreen(): boolean {
+    const fullscreenDocument = document as Document & {
+      webkitFullscreenElement?: Element | null;
+    };
+    const fullscreenElement =
+      fullscreenDocument.fullscreenElement || fullscreenDocument.webkitFullscreenElement;
+
+    if (fullscreenElement) {
+      return fullscreenElement.contains(this.videoElement);
+    }
+
+    // iOS Safari: sadece video element fullscreen olabilir
+    const webkitVideo = this.videoElement as HTMLVideoElement & {
+      webkitDisplayingFullscreen?: boolean;
+    };
+    return webkitVideo.webkitDisplayingFullscreen === true;
+  }
+
   /**
    * Quartile fire et
    */
@@ -195,6 +325,8 @@ export class QuartileTracker {
       console.log(`[QuartileTracker] Firing ${urls.length} trackers for ${eventType}`);
       this.onFire(eventType, urls);
     }
+
+    this.onEvent?.(eventType);
   }
 
   /**
@@ -209,6 +341,10 @@ export class QuartileTracker {
     this.videoElement.removeEventListener('pause', this.boundHandlers.pause);
     this.videoElement.removeEventListener('play', this.boundHandlers.play);
     this.videoElement.removeEventListener('volumechange', this.boundHandlers.volumechange);
+    document.removeEventListener('fullscreenchange', this.boundHandlers.fullscreenchange);
+    document.removeEventListener('webkitfullscreenchange', this.boundHandlers.fullscreenchange);
+    this.videoElement.removeEventListener('webkitbeginfullscreen', this.boundHandlers.webkitbeginfullscreen);
+    this.videoElement.removeEventListener('webkitendfullscreen', this.boundHandlers.webkitendfullscreen);
 
     // Quartile state'i reset et
     this.quartiles.forEach((q) => {
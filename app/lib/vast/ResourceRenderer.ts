@@ -0,0 +1,162 @@
+/**
+ * Resource Renderer - Creative Resource'larını DOM Element'ine Çevirir
+ *
+ * Companion ve NonLinear creative'lerin Static/IFrame/HTML resource'larını
+ * gösterilebilir element'lere dönüştürür.
+ *
+ * ÖZELLIKLER:
+ * - StaticResource: image creativeType'lar için <img>
+ * - IFrameResource: sandbox'lı <iframe src>
+ * - HTMLResource: sandbox'lı <iframe srcdoc> (publisher DOM'una script sızmaz)
+ * - ClickThrough: static resource'lar <a target="_blank"> ile sarılır
+ *
+ * GÜVENLİK:
+ * - IFrameResource ve ClickThrough URL'leri sadece http(s) ise kullanılır
+ *   (javascript:/data: URL'leri publisher origin'inde çalışırdı)
+ */
+
+import type { CreativeResource } from './types';
+
+/**
+ * Creative iframe'lerinin sandbox izinleri (script ve popup var, publisher origin'ine erişim yok)
+ */
+const IFRAME_SANDBOX = 'allow-scripts allow-popups allow-popups-to-escape-sandbox';
+
+/**
+ * Render seçenekleri
+ */
+interface RenderOptions {
+  /** Genişlik (px) */
+  width: number;
+
+  /** Yükseklik (px) */
+  height: number;
+
+  /** Click-through URL (sadece static resource'larda kullanılır) */
+  clickThrough?: string;
+
+  /** Image alt text */
+  altText?: string;
+}
+
+/**
+ * Resource listesinden render edilebilir ilkini seç ve element oluştur
+ *
+ * @param resources - Creative resource'ları (XML sırasıyla)
+ * @param options - Boyut ve click-through bilgisi
+ * @returns Oluşturulan element, render edilebilir resource yoksa null
+ */
+export function renderCreativeResource(
+  resources: CreativeResource[],
+  options: RenderOptions
+): HTMLElement | null {
+  for (const resource of resources) {
+    const element = renderResource(resource, options);
+    if (element) {
+      return element;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Ad server'dan gelen URL'i doğrula (sadece mutlak http(s))
+ *
+ * @param value - VAST'taki URL (IFrameResource, ClickThrough vb.)
+ * @returns Normalize edilmiş URL, geçersizse null
+ */
+export function toHttpUrl(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tek bir resource'u render et
+ */
+function renderResource(resource: CreativeResource, options: RenderOptions): HTMLElement | null {
+  switch (resource.type) {
+    case 'static': {
+      // Sadece image tipleri (Flash/JS static resource desteklenmiyor)
+      const creativeType = (resource.creativeType || '').toLowerCase();
+      if (creativeType && !creativeType.startsWith('image/')) {
+        return null;
+      }
+
+      const img = document.createElement('img');
+      img.src = resource.content;
+      img.alt = options.altText || '';
+      applySize(img, options);
+      img.style.display = 'block';
+
+      // Geçersiz ClickThrough'ta image link'siz gösterilir
+      const clickThroughUrl = toHttpUrl(options.clickThrough);
+      if (!clickThroughUrl) {
+        return img;
+      }
+
+      const link = document.createElement('a');
+      link.href = clickThroughUrl;
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      link.appendChild(img);
+      return link;
+    }
+
+    case 'iframe': {
+      // http(s) değilse sıradaki resource denenir
+      const iframeUrl = toHttpUrl(resource.content);
+      if (!iframeUrl) {
+        return null;
+      }
+
+      const iframe = createIframe(options);
+      iframe.setAttribute('sandbox', IFRAME_SANDBOX);
+      iframe.src = iframeUrl;
+      return iframe;
+    }
+
+    case 'html': {
+      const iframe = createIframe(options);
+      iframe.setAttribute('sandbox', IFRAME_SANDBOX);
+      iframe.srcdoc = resource.content;
+      return iframe;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Border'sız, scroll'suz iframe oluştur
+ */
+function createIframe(options: RenderOptions): HTMLIFrameElement {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('frameborder', '0');
+  iframe.setAttribute('scrolling', 'no');
+  iframe.style.border = 'none';
+  iframe.style.display = 'block';
+  applySize(iframe, options);
+  return iframe;
+}
+
+/**
+ * Width/height uygula (0 ise element doğal boyutunda kalır)
+ */
+function applySize(element: HTMLElement, options: RenderOptions): void {
+  if (options.width > 0) {
+    element.style.width = `${options.width}px`;
+  }
+  if (options.height > 0) {
+    element.style.height = `${options.height}px`;
+  }
+}
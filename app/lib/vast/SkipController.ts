@@ -0,0 +1,205 @@
+/**
+ * Skip Controller - Atlanabilir Linear Reklam UI'ı
+ *
+ * Bu sınıf skipoffset'i olan reklamlarda video'nun üzerine
+ * geri sayım ve ardından Skip butonu yerleştirir.
+ *
+ * ÖZELLIKLER:
+ * - skipOffset'e kadar geri sayım ("Skip in 5")
+ * - Offset'e gelince tıklanabilir Skip butonu
+ * - Yüzde offset ("25%") video süresi belli olunca saniyeye çevrilir
+ *   (stream'lerde video.duration sonsuz/bilinmiyorsa VAST Duration kullanılır)
+ * - Video'nun parent element'ine absolute pozisyonlu (sağ-alt)
+ *
+ * Tracking ve pod ilerletme AdContainer'dadır; bu sınıf sadece UI'dır.
+ */
+
+import type { SkipControllerConfig, SkipOffset } from './types';
+
+export class SkipController {
+  // Konfigürasyon
+  private videoElement: HTMLVideoElement;
+  private skipOffset: SkipOffset;
+  private vastDuration?: number;
+  private onSkip: () => void;
+  private debug: boolean;
+
+  // Skip butonu
+  private buttonElement: HTMLButtonElement | null = null;
+  private isSkippable: boolean = false;
+
+  // Parent'ın orijinal position değeri (restore için)
+  private originalParentPosition: string | null = null;
+
+  // timeupdate handler (cleanup için saklıyoruz)
+  private boundHandleTimeUpdate: () => void;
+
+  constructor(config: SkipControllerConfig) {
+    this.videoElement = config.videoElement;
+    this.skipOffset = config.skipOffset;
+    this.vastDuration = config.duration;
+    this.onSkip = config.onSkip;
+    this.debug = config.debug || false;
+
+    this.boundHandleTimeUpdate = this.handleTimeUpdate.bind(this);
+  }
+
+  /**
+   * Skip butonunu göster ve geri sayımı başlat
+   */
+  init(): void {
+    const parent = this.videoElement.parentElement;
+    if (!parent) {
+      this.log('[SkipController] Video element has no parent, cannot show skip button', true);
+      return;
+    }
+
+    // Buton absolute konumlanacağı için parent'ı positioned yap
+    if (getComputedStyle(parent).position === 'static') {
+      this.originalParentPosition = parent.style.position;
+      parent.style.position = 'relative';
+    }
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.disabled = true;
+    button.style.position = 'absolute';
+    button.style.right = '0';
+    button.style.bottom = '15%';
+    button.style.padding = '8px 16px';
+    button.style.border = '1px solid rgba(255, 255, 255, 0.5)';
+    button.style.borderRight = 'none';
+    button.style.background = 'rgba(0, 0, 0, 0.75)';
+    button.style.color = 'white';
+    button.style.fontSize = '14px';
+    button.style.cursor = 'default';
+    button.style.zIndex = '10002';
+    button.addEventListener('click', (event) => {
+      event.stopPropagation();
+      this.skip();
+    });
+
+    parent.appendChild(button);
+    this.buttonElement = button;
+
+    this.videoElement.addEventListener('timeupdate', this.boundHandleTimeUpdate);
+    this.handleTimeUpdate();
+
+    this.log(`[SkipController] Skippable after ${this.skipOffset}`);
+  }
+
+  /**
+   * Skip butonunu kaldır
+   */
+  destroy(): void {
+    this.videoElement.removeEventListener('timeupdate', this.boundHandleTimeUpdate);
+
+    if (this.buttonElement) {
+      this.buttonElement.parentNode?.removeChild(this.buttonElement);
+      this.buttonElement = null;
+    }
+
+    if (this.originalParentPosition !== null && this.videoElement.parentElement) {
+      this.videoElement.parentElement.style.position = this.originalParentPosition;
+      this.originalParentPosition = null;
+    }
+
+    this.isSkippable = false;
+  }
+
+  /**
+   * Geri sayımı güncelle, offset'e gelindiyse butonu aktif et
+   */
+  private handleTimeUpdate(): void {
+    if (!this.buttonElement) {
+      return;
+    }
+
+    const offsetSeconds = this.resolveOffset();
+
+    // Yüzde offset ve süre henüz belli değil
+    if (offsetSeconds === null) {
+      this.buttonElement.textContent = 'Skip in ...';
+      return;
+    }
+
+    const remaining = offsetSeconds - this.videoElement.currentTime;
+
+    if (remaining > 0) {
+      this.buttonElement.textContent = `Skip in ${Math.ceil(remaining)}`;
+      return;
+    }
+
+    if (!this.isSkippable) {
+      this.isSkippable = true;
+      this.buttonElement.disabled = false;
+      this.buttonElement.style.cursor = 'pointer';
+      this.buttonElement.textContent = 'Skip Ad ▶';
+      this.buttonElement.setAttribute('aria-label', 'Skip ad');
+
+      this.log('[SkipController] Ad is now skippable');
+    }
+  }
+
+  /**
+   * Kullanıcı Skip'e bastı
+   */
+  private skip(): void {
+    if (!this.isSkippable) {
+      return;
+    }
+
+    this.log('[SkipController] Ad skipped by user');
+    this.isSkippable = false;
+    this.onSkip();
+  }
+
+  /**
+   * Skip offset'ini saniyeye çevir
+   * Yüzde offset için süre henüz bilinmiyorsa null
+   */
+  private resolveOffset(): number | null {
+    if (typeof this.skipOffset === 'number') {
+      return this.skipOffset;
+    }
+
+    const duration = this.getDuration();
+    if (!duration) {
+      return null;
+    }
+
+    return (parseFloat(this.skipOffset) / 100) * duration;
+  }
+
+  /**
+   * Yüzde offset'in hesaplandığı süre
+   * Live/event stream'lerde video.duration Infinity veya NaN olabilir; o zaman VAST Duration
+   */
+  private getDuration(): number | null {
+    const duration = this.videoElement.duration;
+
+    if (Number.isFinite(duration) && duration > 0) {
+      return duration;
+    }
+
+    if (this.vastDuration && this.vastDuration > 0) {
+      return this.vastDuration;
+    }
+
+    return null;
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
@@ -5,43 +5,144 @@
  * Her request için log oluşturur ve logger callback'e bildirir.
  *
  * ÖZELLIKLER:
- * - Fire-and-forget tracking (no-cors mode)
- * - Real-time logging (pending -> success/error)
- * - Proxy support
+ * - Fire-and-forget tracking (no-cors fetch, keepalive, sendBeacon veya Image pixel)
+ * - Real-time logging (pending -> success/opaque/error, kullanılan transport ve süre ile)
+ * - Macro expansion (her fire'dan önce)
+ * - Request'ler Transport üzerinden (proxy ve decoration transport'ta)
  * - Parallel tracker firing
+ * - Abort signal ile bekleyen request'lerin iptali (iptal sonrası log yazılmaz)
  * - Error handling ve retry (optional)
+ *
+ * STATUS:
+ * - no-cors fetch, beacon ve pixel cevabı okunamaz: 'opaque' (başarı varsayılmaz)
+ * - Cevap okunabiliyorsa (doğrulama modu, same-origin first-party proxy) gerçek status code:
+ *   2xx 'success', diğerleri 'error'
+ * - Doğrulama modunda (verifyTrackers) tracker'lar CORS fetch ile gider; redirect zinciri
+ *   first-party proxy'nin X-Redirect-Chain header'ından veya response.url'den alınır
+ * - Doğrulama modunda CORS header'ı vermeyen tracker'ın fetch'i reddedilir ama ping server'a
+ *   ulaşmıştır: 'error' değil 'opaque' loglanır (tekrar gönderilmez, çift sayılırdı)
+ *
+ * SAYFA KAPANIRKEN:
+ * - Default transport keepalive: tracker'lar baştan sayfa kapansa da tamamlanacak şekilde gider
+ * - Sayfa gizliyken (visibilitychange / pagehide) fire edilen fetch/pixel tracker'ları beacon ile gider
+ * - Gönderilmiş tracker'lar asla iptal edilip yeniden gönderilmez (ad server'da çift sayılırdı)
  */
 
 import type {
   TrackingManagerConfig,
   TrackingLog,
   VastEventType,
-  ProxyConfig,
+  Transport,
+  TransportRequest,
+  TrackerTransport,
+  TrackingStatus,
+  MacroContext,
 } from './types';
+import { MacroExpander } from './MacroExpander';
+import { REDIRECT_CHAIN_HEADER } from './Transport';
+
+/**
+ * Sayfa kapansa da tamamlanan transport'lar
+ */
+const UNLOAD_SAFE_TRANSPORTS: TrackerTransport[] = ['keepalive', 'beacon'];
+
+/**
+ * Cevabı okunabilen transport'lar (doğrulama modunda beacon/image yerine fetch)
+ */
+const READABLE_TRANSPORTS: TrackerTransport[] = ['fetch', 'keepalive'];
+
+/**
+ * Tracker gönderiminin sonucu
+ */
+interface DeliveryResult {
+  transport: TrackerTransport;
+  status: TrackingStatus;
+  statusCode?: number;
+  redirectChain?: string[];
+
+  /** Durumun açıklaması (doğrulanamayan veya başarısız cevaplar) */
+  message?: string;
+}
 
 export class TrackingManager {
   // Konfigürasyon
   private loggerCallback: (log: TrackingLog) => void;
-  private proxyConfig: ProxyConfig;
+  private transport: Transport;
+  private macroExpander: MacroExpander;
+  private getMacroContext: () => MacroContext;
+  private trackerTransport: TrackerTransport;
+  private verifyTrackers: boolean;
+  private signal?: AbortSignal;
   private debug: boolean;
 
+  // Sayfa gizli veya kapanıyor (yeni tracker'lar beacon ile gider)
+  private isPageHidden: boolean = false;
+
+  // Event handler'lar (cleanup için saklıyoruz)
+  private boundHandleVisibilityChange: () => void;
+  private boundHandlePageHide: () => void;
+  private boundHandlePageShow: () => void;
+
   constructor(config: TrackingManagerConfig) {
     this.loggerCallback = config.loggerCallback;
-    this.proxyConfig = config.proxyConfig || { type: 'none' };
+    this.transport = config.transport;
+    this.verifyTrackers = config.verifyTrackers || false;
+    this.trackerTransport = config.trackerTransport || 'keepalive';
+    if (this.verifyTrackers && !READABLE_TRANSPORTS.includes(this.trackerTransport)) {
+      this.trackerTransport = 'fetch';
+    }
+    this.macroExpander = config.macroExpander || new MacroExpander();
+    this.getMacroContext = config.getMacroContext || (() => ({}));
+    this.signal = config.signal;
     this.debug = config.debug || false;
+
+    this.boundHandleVisibilityChange = this.handleVisibilityChange.bind(this);
+    this.boundHandlePageHide = this.handlePageHide.bind(this);
+    this.boundHandlePageShow = this.handlePageShow.bind(this);
+
+    // Sayfa kapanış dinleyicileri signal abort edilince (AdContainer destroy) kaldırılır
+    if (typeof window !== 'undefined' && typeof document !== 'undefined') {
+      this.isPageHidden = document.visibilityState === 'hidden';
+      document.addEventListener('visibilitychange', this.boundHandleVisibilityChange);
+      window.addEventListener('pagehide', this.boundHandlePageHide);
+      window.addEventListener('pageshow', this.boundHandlePageShow);
+      this.signal?.addEventListener('abort', () => this.removePageListeners(), { once: true });
+    }
   }
 
   /**
    * Tek bir tracker URL'e request fire et
    *
    * @param eventType - VAST event tipi (örn: 'Start', 'Complete')
-   * @param trackerUrl - Fire edilecek tracker URL'i
+   * @param trackerUrl - Fire edilecek tracker URL'i (macro içerebilir)
+   * @param macroContext - Bu fire'a özel macro değerleri (örn: errorCode)
    */
-  async fireTracker(eventType: VastEventType, trackerUrl: string): Promise<void> {
+  async fireTracker(
+    eventType: VastEventType,
+    trackerUrl: string,
+    macroContext: MacroContext = {}
+  ): Promise<void> {
+    // İptal edildiyse (AdContainer destroy) fire etme
+    if (this.signal?.aborted) {
+      this.log(`[TrackingManager] Skipping ${eventType} tracker (aborted)`);
+      return;
+    }
+
     // Benzersiz log ID oluştur
     const logId = crypto.randomUUID();
 
-    this.log(`[TrackingManager] Firing ${eventType} tracker: ${trackerUrl}`);
+    // Macro'ları expand et (global context + fire'a özel context)
+    const expandedUrl = this.macroExpander.expand(trackerUrl, {
+      ...this.getMacroContext(),
+      ...macroContext,
+    });
+
+    // Sayfa gizliyken unload'da kaybolabilecek transport'lar yerine beacon
+    const transport = this.isPageHidden && !UNLOAD_SAFE_TRANSPORTS.includes(this.trackerTransport)
+      ? 'beacon'
+      : this.trackerTransport;
+
+    this.log(`[TrackingManager] Firing ${eventType} tracker via ${transport}: ${expandedUrl}`);
 
     // İlk log: pending state
     const pendingLog: TrackingLog = {
@@ -49,46 +150,48 @@ export class TrackingManager {
       timestamp: new Date(),
       eventType,
       trackerUrl,
+      expandedUrl,
       status: 'pending',
+      transport,
     };
 
     // Logger'a pending log gönder
     this.loggerCallback(pendingLog);
 
+    const startedAt = Date.now();
+
     try {
-      // Proxy uygula
-      const proxiedUrl = this.applyProxy(trackerUrl);
-
-      // HTTP request fire et
-      const response = await fetch(proxiedUrl, {
-        method: 'GET',
-        mode: 'no-cors', // CORS hatalarını bypass et, fire-and-forget
-        cache: 'no-cache',
-        credentials: 'omit', // Cookie gönderme
+      const result = await this.deliver(transport, {
+        ...this.createRequest(expandedUrl),
+        signal: this.signal,
       });
 
-      // Success log
-      // Not: no-cors mode'da response.status okunamaz, varsayılan olarak 0 döner
-      const successLog: TrackingLog = {
-        id: logId,
-        timestamp: new Date(),
-        eventType,
-        trackerUrl,
-        status: 'success',
-        statusCode: response.status || 200, // no-cors'ta 0 gelir, 200 varsay
-      };
+      // Sonuç log'u (success / opaque / error)
+      const resultLog = this.createResultLog(logId, eventType, trackerUrl, expandedUrl, result, startedAt);
 
-      this.loggerCallback(successLog);
-      this.log(`[TrackingManager] ✓ ${eventType} tracker succeeded`);
+      this.loggerCallback(resultLog);
+      this.log(
+        `[TrackingManager] ${eventType} tracker ${result.status}${result.statusCode ? ` (${result.statusCode})` : ''}`,
+        result.status === 'error'
+      );
     } catch (error) {
+      // İptal edilen request loglanmaz
+      if (this.signal?.aborted) {
+        this.log(`[TrackingManager] ${eventType} tracker aborted`);
+        return;
+      }
+
       // Error log
       const errorLog: TrackingLog = {
         id: logId,
         timestamp: new Date(),
         eventType,
         trackerUrl,
+        expandedUrl,
         status: 'error',
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        elapsedMs: Date.now() - startedAt,
+        transport,
       };
 
       this.loggerCallback(errorLog);
@@ -101,8 +204,13 @@ export class TrackingManager {
    *
    * @param eventType - VAST event tipi
    * @param trackerUrls - Fire edilecek tracker URL'leri array'i
+   * @param macroContext - Bu fire'a özel macro değerleri
    */
-  async fireTrackers(eventType: VastEventType, trackerUrls: string[]): Promise<void> {
+  async fireTrackers(
+    eventType: VastEventType,
+    trackerUrls: string[],
+    macroContext: MacroContext = {}
+  ): Promise<void> {
     if (trackerUrls.length === 0) {
       this.log(`[TrackingManager] No trackers to fire for ${eventType}`);
       return;
@@ -113,7 +221,7 @@ export class TrackingManager {
     // Tüm tracker'ları parallel fire et (Promise.all)
     // Her biri kendi error handling'ini yapıyor, birinin hatası diğerini etkilemez
     await Promise.all(
-      trackerUrls.map((url) => this.fireTracker(eventType, url))
+      trackerUrls.map((url) => this.fireTracker(eventType, url, macroContext))
     );
 
     this.log(`[TrackingManager] All ${eventType} trackers fired`);
@@ -129,33 +237,149 @@ export class TrackingManager {
   }
 
   /**
-   * Proxy uygula (config'e göre)
+   * Tracker request'i (cookie'siz; doğrulama modunda CORS, aksi halde no-cors)
+   */
+  private createRequest(expandedUrl: string): TransportRequest {
+    return {
+      url: expandedUrl,
+      kind: 'tracker',
+      headers: {},
+      // no-cors: CORS hatalarını bypass et, fire-and-forget (cevap opaque)
+      mode: this.verifyTrackers ? 'cors' : 'no-cors',
+      cache: 'no-cache',
+      credentials: 'omit', // Cookie gönderme
+    };
+  }
+
+  /**
+   * Gönderim sonucundan log oluştur
+   */
+  private createResultLog(
+    logId: string,
+    eventType: VastEventType,
+    trackerUrl: string,
+    expandedUrl: string,
+    result: DeliveryResult,
+    startedAt: number
+  ): TrackingLog {
+    return {
+      id: logId,
+      timestamp: new Date(),
+      eventType,
+      trackerUrl,
+      expandedUrl,
+      status: result.status,
+      statusCode: result.statusCode,
+      errorMessage: result.message,
+      elapsedMs: Date.now() - startedAt,
+      redirectChain: result.redirectChain,
+      transport: result.transport,
+    };
+  }
+
+  /**
+   * Tracker'ı seçilen transport ile gönder
+   * Transport desteklemiyorsa (beacon kuyruğa alınamadı, pixel yok) fetch'e düşülür
+   *
+   * @returns Gerçekte kullanılan transport, durum ve (okunabildiyse) status code
    */
-  private applyProxy(url: string): string {
-    switch (this.proxyConfig.type) {
-      case 'none':
-        return url;
-
-      case 'cors-anywhere':
-        return `https://cors-anywhere.herokuapp.com/${url}`;
-
-      case 'allorigins':
-        // allorigins URL encoding gerektirir
-        return `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-
-      case 'custom':
-        if (this.proxyConfig.customUrl) {
-          // Trailing slash kontrolü
-          const baseUrl = this.proxyConfig.customUrl.endsWith('/')
-            ? this.proxyConfig.customUrl
-            : `${this.proxyConfig.customUrl}/`;
-          return `${baseUrl}${url}`;
+  private async deliver(transport: TrackerTransport, request: TransportRequest): Promise<DeliveryResult> {
+    switch (transport) {
+      case 'beacon':
+        if (this.transport.sendBeacon?.(request)) {
+          return { transport, status: 'opaque' };
+        }
+        return this.deliver('keepalive', request);
+
+      case 'image':
+        // Pixel'in load/error'u status code vermez
+        if (this.transport.sendPixel) {
+          await this.transport.sendPixel(request);
+          return { transport, status: 'opaque' };
         }
-        return url;
+        return this.deliver('fetch', request);
 
-      default:
-        return url;
+      case 'fetch':
+      case 'keepalive': {
+        let response: Response;
+        try {
+          response = await this.transport.send({
+            ...request,
+            keepalive: transport === 'keepalive',
+          });
+        } catch (error) {
+          // CORS reddi network hatasıyla aynı TypeError'dır; ayırt edilemediği için doğrulanmadı sayılır
+          if (request.mode === 'cors' && error instanceof TypeError && !request.signal?.aborted) {
+            return {
+              transport,
+              status: 'opaque',
+              message: `Cevap okunamadı (CORS veya ağ hatası): ${error.message}`,
+            };
+          }
+          throw error;
+        }
+
+        // no-cors cross-origin cevapta status 0'dır: tracker'ın cevabı bilinmiyor
+        if (response.type === 'opaque' || response.status === 0) {
+          return { transport, status: 'opaque' };
+        }
+
+        return {
+          transport,
+          status: response.ok ? 'success' : 'error',
+          statusCode: response.status,
+          redirectChain: this.getRedirectChain(request.url, response),
+          message: response.ok ? undefined : `HTTP ${response.status}`,
+        };
+      }
+    }
+  }
+
+  /**
+   * Redirect zinciri (first-party proxy header'ı veya tarayıcının takip ettiği son URL)
+   */
+  private getRedirectChain(requestUrl: string, response: Response): string[] | undefined {
+    const chainHeader = response.headers.get(REDIRECT_CHAIN_HEADER);
+    if (chainHeader) {
+      return chainHeader.split(' ').filter((url) => url.length > 0);
     }
+
+    // Tarayıcı ara adımları göstermez, sadece son URL
+    if (response.redirected && response.url) {
+      return [requestUrl, response.url];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * visibilitychange: gizliyken yeni tracker'lar beacon ile gider (mobilde son güvenilir event)
+   */
+  private handleVisibilityChange(): void {
+    this.isPageHidden = document.visibilityState === 'hidden';
+  }
+
+  /**
+   * pagehide: sayfa kapanıyor veya bfcache'e giriyor
+   */
+  private handlePageHide(): void {
+    this.isPageHidden = true;
+  }
+
+  /**
+   * pageshow: bfcache'ten geri dönüldü
+   */
+  private handlePageShow(): void {
+    this.isPageHidden = document.visibilityState === 'hidden';
+  }
+
+  /**
+   * Sayfa kapanış dinleyicilerini kaldır
+   */
+  private removePageListeners(): void {
+    document.removeEventListener('visibilitychange', this.boundHandleVisibilityChange);
+    window.removeEventListener('pagehide', this.boundHandlePageHide);
+    window.removeEventListener('pageshow', this.boundHandlePageShow);
   }
 
   /**
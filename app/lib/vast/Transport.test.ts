@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FetchTransport } from './Transport';
+import type { ProxyConfig, TransportRequest } from './types';
+
+const VAST_URL = 'https://ads.example.com/vast?id=1&cb=2';
+
+function vastRequest(overrides: Partial<TransportRequest> = {}): TransportRequest {
+  return { url: VAST_URL, kind: 'vast', headers: {}, ...overrides };
+}
+
+describe('FetchTransport', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockResolvedValue(new Response('<VAST/>'));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  async function requestedUrl(proxyConfig: ProxyConfig, request: TransportRequest = vastRequest()) {
+    await new FetchTransport({ proxyConfig }).send(request);
+    return fetchMock.mock.calls[0][0];
+  }
+
+  describe('proxy rewriting', () => {
+    it('sends the URL as is without a proxy', async () => {
+      expect(await requestedUrl({ type: 'none' })).toBe(VAST_URL);
+    });
+
+    it('prefixes cors-anywhere', async () => {
+      expect(await requestedUrl({ type: 'cors-anywhere' })).toBe(`https://cors-anywhere.herokuapp.com/${VAST_URL}`);
+    });
+
+    it('encodes the URL for allorigins', async () => {
+      expect(await requestedUrl({ type: 'allorigins' })).toBe(
+        `https://api.allorigins.win/raw?url=${encodeURIComponent(VAST_URL)}`
+      );
+    });
+
+    it('adds a trailing slash to a custom proxy', async () => {
+      expect(await requestedUrl({ type: 'custom', customUrl: 'https://proxy.example.com' })).toBe(
+        `https://proxy.example.com/${VAST_URL}`
+      );
+    });
+
+    it('uses the first-party route with an encoded url parameter', async () => {
+      expect(await requestedUrl({ type: 'first-party' })).toBe(`/api/proxy?url=${encodeURIComponent(VAST_URL)}`);
+    });
+
+    it('appends to an existing query on a custom first-party URL', async () => {
+      expect(
+        await requestedUrl({ type: 'first-party', firstPartyUrl: 'https://app.example.com/api/proxy?site=1' })
+      ).toBe(`https://app.example.com/api/proxy?site=1&url=${encodeURIComponent(VAST_URL)}`);
+    });
+
+    it('does not proxy resolver requests', async () => {
+      const resolverUrl = '/api/vast?url=x';
+
+      expect(await requestedUrl({ type: 'first-party' }, vastRequest({ url: resolverUrl, kind: 'resolver' }))).toBe(
+        resolverUrl
+      );
+    });
+  });
+
+  describe('decoration', () => {
+    it('applies headers, credentials and decorateRequest before proxying', async () => {
+      const onRequest = vi.fn();
+      const transport = new FetchTransport({
+        proxyConfig: { type: 'first-party' },
+        headers: { 'X-Site': 'publisher' },
+        credentials: 'omit',
+        decorateRequest: (request) => ({ ...request, url: `${request.url}&sig=abc` }),
+        hooks: { onRequest },
+      });
+
+      await transport.send(vastRequest({ headers: { Accept: 'application/xml' }, credentials: 'include' }));
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(`/api/proxy?url=${encodeURIComponent(`${VAST_URL}&sig=abc`)}`);
+      expect(init?.headers).toEqual({ Accept: 'application/xml', 'X-Site': 'publisher' });
+      expect(init?.credentials).toBe('omit');
+      expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ url: `${VAST_URL}&sig=abc` }), url);
+    });
+
+    it('reports fetch failures to onError and rethrows', async () => {
+      const failure = new TypeError('Failed to fetch');
+      fetchMock.mockRejectedValue(failure);
+      const onError = vi.fn();
+
+      const transport = new FetchTransport({ hooks: { onError } });
+
+      await expect(transport.send(vastRequest())).rejects.toBe(failure);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ url: VAST_URL }), failure, expect.any(Number));
+    });
+  });
+});
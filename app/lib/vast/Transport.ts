@@ -0,0 +1,223 @@
+/**
+ * Transport - VAST ve Tracker Request Katmanı
+ *
+ * VastParser ve TrackingManager request'lerini fetch'i doğrudan çağırmadan
+ * bir Transport üzerinden gönderir. FetchTransport default implementasyondur.
+ *
+ * FETCH TRANSPORT:
+ * - Proxy stratejisi (ProxyConfig) tek yerde uygulanır
+ * - Request decoration: ortak header'lar, cookie politikası, decorateRequest
+ * - Instrumentation: onRequest / onResponse / onError hook'ları (süre ile)
+ * - Tracker'lar için sendBeacon ve Image pixel (cevap okunamadığı için onResponse çağrılmaz)
+ *
+ * KULLANIM:
+ * ```typescript
+ * const transport = new FetchTransport({
+ *   proxyConfig: { type: 'first-party' },
+ *   decorateRequest: (request) => ({
+ *     ...request,
+ *     url: signUrl(request.url),
+ *   }),
+ *   hooks: {
+ *     onResponse: (request, response, elapsedMs) => metrics.record(request.kind, elapsedMs),
+ *   },
+ * });
+ *
+ * new AdContainer({ vastUrl, videoElement, loggerCallback, transport });
+ * ```
+ *
+ * Testlerde Transport arayüzünü implement eden in-memory bir mock verilebilir.
+ */
+
+import type {
+  Transport,
+  TransportRequest,
+  FetchTransportConfig,
+  ProxyConfig,
+} from './types';
+
+/**
+ * First-party proxy route'unun default URL'i (routes/api.proxy.ts)
+ */
+const DEFAULT_FIRST_PARTY_PROXY_URL = '/api/proxy';
+
+/**
+ * First-party proxy'nin takip ettiği redirect zincirini döndüğü header (boşlukla ayrılmış URL'ler)
+ */
+export const REDIRECT_CHAIN_HEADER = 'X-Redirect-Chain';
+
+export class FetchTransport implements Transport {
+  // Konfigürasyon
+  private config: FetchTransportConfig;
+  private proxyConfig: ProxyConfig;
+
+  constructor(config: FetchTransportConfig = {}) {
+    this.config = config;
+    this.proxyConfig = config.proxyConfig || { type: 'none' };
+  }
+
+  /**
+   * Request'i (decoration ve proxy uygulanmış) fetch ile gönder
+   */
+  async send(request: TransportRequest): Promise<Response> {
+    const { decorated, requestUrl } = this.prepare(request);
+
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(requestUrl, {
+        method: 'GET',
+        headers: decorated.headers,
+        mode: decorated.mode,
+        credentials: decorated.credentials,
+        cache: decorated.cache,
+        keepalive: decorated.keepalive,
+        signal: decorated.signal,
+      });
+
+      this.config.hooks?.onResponse?.(decorated, response, Date.now() - startedAt);
+      return response;
+    } catch (error) {
+      this.config.hooks?.onError?.(decorated, error, Date.now() - startedAt);
+      throw error;
+    }
+  }
+
+  /**
+   * navigator.sendBeacon ile gönder (POST, header ve credentials politikası uygulanamaz)
+   */
+  sendBeacon(request: TransportRequest): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+
+    const { decorated, requestUrl } = this.prepare(request);
+    const startedAt = Date.now();
+
+    const isQueued = navigator.sendBeacon(requestUrl);
+    if (!isQueued) {
+      this.config.hooks?.onError?.(decorated, new Error('Beacon was not queued'), Date.now() - startedAt);
+    }
+
+    return isQueued;
+  }
+
+  /**
+   * Image pixel ile gönder (GET)
+   * Tracker'lar çoğunlukla 204 veya resim olmayan içerik döner; onerror da gönderildi sayılır
+   */
+  sendPixel(request: TransportRequest): Promise<void> {
+    const { decorated, requestUrl } = this.prepare(request);
+    const startedAt = Date.now();
+
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+
+      const finish = () => {
+        image.onload = null;
+        image.onerror = null;
+        decorated.signal?.removeEventListener('abort', abort);
+      };
+      const abort = () => {
+        finish();
+        image.src = '';
+        this.config.hooks?.onError?.(decorated, decorated.signal?.reason, Date.now() - startedAt);
+        reject(decorated.signal?.reason);
+      };
+
+      if (decorated.signal?.aborted) {
+        abort();
+        return;
+      }
+
+      image.onload = image.onerror = () => {
+        finish();
+        resolve();
+      };
+      decorated.signal?.addEventListener('abort', abort);
+
+      // Cookie gönderilmesin isteniyorsa anonymous (CORS) request
+      if (decorated.credentials === 'omit') {
+        image.crossOrigin = 'anonymous';
+      }
+      image.src = requestUrl;
+    });
+  }
+
+  /**
+   * Decoration ve proxy uygula, onRequest hook'unu çağır
+   */
+  private prepare(request: TransportRequest): { decorated: TransportRequest; requestUrl: string } {
+    const decorated = this.decorate(request);
+    const requestUrl = decorated.kind === 'resolver' ? decorated.url : this.applyProxy(decorated.url);
+
+    this.log(`[Transport] ${decorated.kind} request: ${requestUrl}`);
+    this.config.hooks?.onRequest?.(decorated, requestUrl);
+
+    return { decorated, requestUrl };
+  }
+
+  /**
+   * Ortak header'ları, cookie politikasını ve publisher decoration'ını uygula
+   */
+  private decorate(request: TransportRequest): TransportRequest {
+    const decorated: TransportRequest = {
+      ...request,
+      headers: { ...request.headers, ...this.config.headers },
+      credentials: this.config.credentials ?? request.credentials,
+    };
+
+    return this.config.decorateRequest ? this.config.decorateRequest(decorated) : decorated;
+  }
+
+  /**
+   * Proxy uygula (config'e göre)
+   */
+  private applyProxy(url: string): string {
+    switch (this.proxyConfig.type) {
+      case 'none':
+        return url;
+
+      case 'cors-anywhere':
+        return `https://cors-anywhere.herokuapp.com/${url}`;
+
+      case 'allorigins':
+        // allorigins URL encoding gerektirir
+        return `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
+
+      case 'custom':
+        if (this.proxyConfig.customUrl) {
+          // Trailing slash kontrolü
+          const baseUrl = this.proxyConfig.customUrl.endsWith('/')
+            ? this.proxyConfig.customUrl
+            : `${this.proxyConfig.customUrl}/`;
+          return `${baseUrl}${url}`;
+        }
+        return url;
+
+      case 'first-party': {
+        // Uygulamanın kendi proxy route'u
+        const proxyUrl = this.proxyConfig.firstPartyUrl || DEFAULT_FIRST_PARTY_PROXY_URL;
+        const separator = proxyUrl.includes('?') ? '&' : '?';
+        return `${proxyUrl}${separator}url=${encodeURIComponent(url)}`;
+      }
+
+      default:
+        return url;
+    }
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.config.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import { DOMParser as LinkedomDOMParser } from 'linkedom';
+import { VastParser } from './VastParser';
+import { VastErrorCode } from './types';
+import type { Transport, TransportRequest, VastError } from './types';
+
+/**
+ * URL -> XML eşlemesinden cevap veren in-memory transport
+ */
+function createMockTransport(responses: Record<string, string>) {
+  const requests: TransportRequest[] = [];
+
+  const transport: Transport = {
+    async send(request) {
+      requests.push(request);
+
+      const body = responses[request.url];
+      if (body === undefined) {
+        return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+      }
+
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'application/xml' } });
+    },
+  };
+
+  return { transport, requests };
+}
+
+function createParser(responses: Record<string, string>) {
+  const mock = createMockTransport(responses);
+  const parser = new VastParser({ transport: mock.transport, domParser: new LinkedomDOMParser() });
+
+  return { parser, requests: mock.requests };
+}
+
+function inlineAd(id: string, options: { sequence?: number; error?: string } = {}): string {
+  const sequence = options.sequence !== undefined ? ` sequence="${options.sequence}"` : '';
+  const error = options.error ? `<Error><![CDATA[${options.error}]]></Error>` : '';
+
+  return `
+    <Ad id="${id}"${sequence}>
+      <InLine>
+        <AdTitle>${id}</AdTitle>
+        ${error}
+        <Impression><![CDATA[https://track.example.com/impression/${id}]]></Impression>
+        <Creatives>
+          <Creative>
+            <Linear>
+              <Duration>00:00:15</Duration>
+              <TrackingEvents>
+                <Tracking event="start"><![CDATA[https://track.example.com/start/${id}]]></Tracking>
+              </TrackingEvents>
+              <VideoClicks>
+                <ClickThrough><![CDATA[https://advertiser.example.com/${id}]]></ClickThrough>
+              </VideoClicks>
+              <MediaFiles>
+                <MediaFile delivery="progressive" type="video/mp4" width="640" height="360">
+                  <![CDATA[https://cdn.example.com/${id}.mp4]]>
+                </MediaFile>
+              </MediaFiles>
+            </Linear>
+          </Creative>
+        </Creatives>
+      </InLine>
+    </Ad>`;
+}
+
+function wrapperAd(id: string, tagUri: string, options: { error?: string } = {}): string {
+  const error = options.error ? `<Error><![CDATA[${options.error}]]></Error>` : '';
+
+  return `
+    <Ad id="${id}">
+      <Wrapper>
+        <VASTAdTagURI><![CDATA[${tagUri}]]></VASTAdTagURI>
+        ${error}
+        <Impression><![CDATA[https://track.example.com/impression/${id}]]></Impression>
+        <Creatives>
+          <Creative>
+            <Linear>
+              <TrackingEvents>
+                <Tracking event="start"><![CDATA[https://track.example.com/start/${id}]]></Tracking>
+              </TrackingEvents>
+            </Linear>
+          </Creative>
+        </Creatives>
+      </Wrapper>
+    </Ad>`;
+}
+
+function vast(...ads: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><VAST version="3.0">${ads.join('')}</VAST>`;
+}
+
+async function catchVastError(promise: Promise<unknown>): Promise<VastError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as VastError;
+  }
+  throw new Error('Expected promise to reject');
+}
+
+describe('VastParser', () => {
+  describe('wrapper chain', () => {
+    it('follows wrappers and merges their trackers with the inline ad', async () => {
+      const { parser, requests } = createParser({
+        'https://ads.example.com/wrapper-1': vast(wrapperAd('w1', 'https://ads.example.com/wrapper-2')),
+        'https://ads.example.com/wrapper-2': vast(wrapperAd('w2', 'https://ads.example.com/inline')),
+        'https://ads.example.com/inline': vast(inlineAd('inline')),
+      });
+
+      const result = await parser.parse('https://ads.example.com/wrapper-1');
+
+      expect(requests.map((request) => request.url)).toEqual([
+        'https://ads.example.com/wrapper-1',
+        'https://ads.example.com/wrapper-2',
+        'https://ads.example.com/inline',
+      ]);
+      expect(requests.every((request) => request.kind === 'vast')).toBe(true);
+
+      expect(result.adId).toBe('w1');
+      expect(result.mediaFiles.map((mediaFile) => mediaFile.url)).toEqual(['https://cdn.example.com/inline.mp4']);
+      expect(result.impressions).toEqual([
+        'https://track.example.com/impression/w1',
+        'https://track.example.com/impression/w2',
+        'https://track.example.com/impression/inline',
+      ]);
+      expect(result.tracking.Start).toEqual([
+        'https://track.example.com/start/w1',
+        'https://track.example.com/start/w2',
+        'https://track.example.com/start/inline',
+      ]);
+    });
+
+    it('stops at the maximum wrapper depth', async () => {
+      const { transport } = createMockTransport({
+        'https://ads.example.com/wrapper-1': vast(wrapperAd('w1', 'https://ads.example.com/wrapper-2')),
+        'https://ads.example.com/wrapper-2': vast(wrapperAd('w2', 'https://ads.example.com/inline')),
+        'https://ads.example.com/inline': vast(inlineAd('inline')),
+      });
+      const parser = new VastParser({ transport, domParser: new LinkedomDOMParser(), maxWrapperDepth: 2 });
+
+      const error = await catchVastError(parser.parse('https://ads.example.com/wrapper-1'));
+
+      expect(error.code).toBe(VastErrorCode.WRAPPER_LIMIT_REACHED);
+    });
+
+    it('detects circular wrapper references', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/a': vast(wrapperAd('a', 'https://ads.example.com/b')),
+        'https://ads.example.com/b': vast(wrapperAd('b', 'https://ads.example.com/a')),
+      });
+
+      const error = await catchVastError(parser.parse('https://ads.example.com/a'));
+
+      expect(error.code).toBe(VastErrorCode.WRAPPER_LIMIT_REACHED);
+      expect(error.message).toBe('Circular wrapper reference detected');
+    });
+
+    it('reports an empty VAST behind a wrapper as 303', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/wrapper': vast(wrapperAd('w1', 'https://ads.example.com/empty')),
+        'https://ads.example.com/empty': vast(),
+      });
+
+      const error = await catchVastError(parser.parse('https://ads.example.com/wrapper'));
+
+      expect(error.code).toBe(VastErrorCode.WRAPPER_NO_ADS);
+    });
+  });
+
+  describe('ad pods', () => {
+    it('parses every Ad with its sequence', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/pod': vast(
+          inlineAd('second', { sequence: 2 }),
+          inlineAd('first', { sequence: 1 }),
+          inlineAd('standalone')
+        ),
+      });
+
+      const result = await parser.parseAll('https://ads.example.com/pod');
+
+      expect(result.errors).toEqual([]);
+      expect(result.ads.map((ad) => [ad.adId, ad.sequence])).toEqual([
+        ['second', 2],
+        ['first', 1],
+        ['standalone', undefined],
+      ]);
+    });
+
+    it('keeps the other Ads when one of them fails', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/pod': vast(
+          inlineAd('first', { sequence: 1 }),
+          wrapperAd('broken', 'https://ads.example.com/missing')
+        ),
+      });
+
+      const result = await parser.parseAll('https://ads.example.com/pod');
+
+      expect(result.ads.map((ad) => ad.adId)).toEqual(['first']);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].code).toBe(VastErrorCode.TRAFFICKING_ERROR);
+    });
+  });
+
+  describe('<Error> collection', () => {
+    it('collects Error URIs of every level on a successful ad', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/wrapper': vast(
+          wrapperAd('w1', 'https://ads.example.com/inline', { error: 'https://track.example.com/error/w1?code=[ERRORCODE]' })
+        ),
+        'https://ads.example.com/inline': vast(
+          inlineAd('inline', { error: 'https://track.example.com/error/inline?code=[ERRORCODE]' })
+        ),
+      });
+
+      const result = await parser.parse('https://ads.example.com/wrapper');
+
+      expect(result.errors).toEqual([
+        'https://track.example.com/error/w1?code=[ERRORCODE]',
+        'https://track.example.com/error/inline?code=[ERRORCODE]',
+      ]);
+    });
+
+    it('attaches the Error URIs reached before a failure, outermost first', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/wrapper-1': vast(
+          wrapperAd('w1', 'https://ads.example.com/wrapper-2', { error: 'https://track.example.com/error/w1' })
+        ),
+        'https://ads.example.com/wrapper-2': vast(
+          wrapperAd('w2', 'https://ads.example.com/missing', { error: 'https://track.example.com/error/w2' })
+        ),
+      });
+
+      const error = await catchVastError(parser.parse('https://ads.example.com/wrapper-1'));
+
+      expect(error.code).toBe(VastErrorCode.TRAFFICKING_ERROR);
+      expect(error.errorUrls).toEqual([
+        'https://track.example.com/error/w1',
+        'https://track.example.com/error/w2',
+      ]);
+    });
+
+    it('rejects a document without a VAST root', async () => {
+      const { parser } = createParser({
+        'https://ads.example.com/broken': '<html><body>Not a VAST</body></html>',
+      });
+
+      const error = await catchVastError(parser.parse('https://ads.example.com/broken'));
+
+      expect(error.code).toBe(VastErrorCode.VAST_SCHEMA_VALIDATION_ERROR);
+    });
+  });
+});
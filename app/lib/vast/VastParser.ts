@@ -9,42 +9,197 @@
  * - DOMParser ile XML parsing (kütüphane kullanmadan)
  * - MediaFile önceliklendirme (MP4 > WebM > Others)
  * - Tracking URL merging (wrapper + inline)
- * - Circular reference detection
+ * - Tracking event isimlerinin canonical tiplere normalizasyonu
+ * - CompanionAds parsing (Static/IFrame/HTML resource)
+ * - NonLinearAds (overlay) parsing
+ * - Multi-Ad response ve ad pod parsing (sequence attribute)
+ * - Circular reference detection (wrapper zinciri bazında)
+ * - Opsiyonel resolver endpoint'i (wrapper zinciri server'da çözülür)
+ * - Request'ler Transport üzerinden (proxy ve decoration transport'ta)
  */
 
 import type {
   VastParserConfig,
   ParsedVast,
+  ParsedVastResponse,
   MediaFile,
+  CompanionAd,
+  NonLinearAd,
+  CreativeResource,
   VastEventType,
-  ProxyConfig,
+  Transport,
   VastError,
+  SkipOffset,
+  VastRequestTiming,
+  VastResolveResponse,
+  ResolvedVastError,
+  VastXmlParser,
+  VastXmlDocument,
 } from './types';
 import { VastErrorCode } from './types';
+import { normalizeEventName } from './EventNormalizer';
+import { getStreamingFormat } from './MediaSourceAdapters';
 
 export class VastParser {
   // Konfigürasyon
-  private proxyConfig: ProxyConfig;
+  private transport: Transport;
   private maxWrapperDepth: number;
+  private requestTimeout: number;
+  private onRequest?: (timing: VastRequestTiming) => void;
+  private resolverUrl?: string;
+  private domParser?: VastXmlParser;
   private debug: boolean;
 
-  // Visited URLs (circular reference detection için)
-  private visitedUrls: Set<string> = new Set();
-
   constructor(config: VastParserConfig) {
-    this.proxyConfig = config.proxyConfig || { type: 'none' };
+    this.transport = config.transport;
     this.maxWrapperDepth = config.maxWrapperDepth || 3;
+    this.requestTimeout = config.requestTimeout ?? 0;
+    this.onRequest = config.onRequest;
+    this.resolverUrl = config.resolverUrl;
+    this.domParser = config.domParser;
     this.debug = config.debug || false;
   }
 
   /**
-   * VAST URL'ini parse et ve ParsedVast döndür
+   * VAST URL'ini parse et ve ilk Ad'in ParsedVast'ını döndür
    *
    * @param vastUrl - VAST XML URL'i
    * @param depth - Şu anki wrapper depth (recursive calls için)
+   * @param chain - Bu wrapper zincirinde ziyaret edilen URL'ler (circular reference detection)
+   * @param signal - Wrapper zincirini iptal eder (zincir timeout'u vb.)
    * @returns ParsedVast objesi
    */
-  async parse(vastUrl: string, depth: number = 0): Promise<ParsedVast> {
+  async parse(
+    vastUrl: string,
+    depth: number = 0,
+    chain: string[] = [],
+    signal?: AbortSignal
+  ): Promise<ParsedVast> {
+    try {
+      const doc = await this.loadDocument(vastUrl, depth, chain, signal);
+      const ad = this.findAds(doc, depth)[0];
+      return await this.parseAd(ad, depth, [...chain, vastUrl], signal);
+    } catch (error) {
+      throw this.toVastError(error);
+    }
+  }
+
+  /**
+   * VAST URL'indeki tüm Ad'leri parse et (ad pod / multi-Ad response)
+   *
+   * Her Ad bağımsız çözülür; başarısız olanlar response.errors'a konur,
+   * diğerleri etkilenmez. Sadece VAST'ın kendisi alınamazsa throw edilir.
+   *
+   * @param vastUrl - VAST XML URL'i
+   * @param signal - Wrapper zincirlerini iptal eder (iptal sonrası kalan fetch'ler hemen başarısız olur)
+   * @returns Başarılı Ad'ler ve başarısız Ad'lerin hataları
+   */
+  async parseAll(vastUrl: string, signal?: AbortSignal): Promise<ParsedVastResponse> {
+    if (this.resolverUrl) {
+      return this.parseRemote(this.resolverUrl, vastUrl, signal);
+    }
+
+    let adElements: Element[];
+
+    try {
+      const doc = await this.loadDocument(vastUrl, 0, [], signal);
+      adElements = this.findAds(doc, 0);
+    } catch (error) {
+      throw this.toVastError(error);
+    }
+
+    this.log(`[VastParser] Found ${adElements.length} Ad elements`);
+
+    const response: ParsedVastResponse = { ads: [], errors: [] };
+
+    for (const ad of adElements) {
+      try {
+        response.ads.push(await this.parseAd(ad, 0, [vastUrl], signal));
+      } catch (error) {
+        response.errors.push(this.toVastError(error));
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * VAST'ı resolver endpoint'ine çözdür (wrapper zinciri server'da takip edilir)
+   *
+   * Server'daki request süreleri onRequest ile bildirilir,
+   * hatalar VastErrorCode ve Error URI'leri ile geri oluşturulur.
+   */
+  private async parseRemote(
+    resolverUrl: string,
+    vastUrl: string,
+    signal?: AbortSignal
+  ): Promise<ParsedVastResponse> {
+    const params = new URLSearchParams({
+      url: vastUrl,
+      maxWrapperDepth: String(this.maxWrapperDepth),
+    });
+    if (this.requestTimeout > 0) {
+      params.set('requestTimeout', String(this.requestTimeout));
+    }
+
+    const separator = resolverUrl.includes('?') ? '&' : '?';
+    this.log(`[VastParser] Resolving VAST via ${resolverUrl}: ${vastUrl}`);
+
+    let body: VastResolveResponse;
+
+    try {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      const response = await this.transport.send({
+        url: `${resolverUrl}${separator}${params}`,
+        kind: 'resolver',
+        headers: {
+          Accept: 'application/json',
+        },
+        cache: 'no-cache',
+        signal,
+      });
+
+      // Hata durumunda da (404/502/504) body VastResolveResponse'tur
+      body = await response.json();
+    } catch (error) {
+      if (signal?.aborted) {
+        const reason = this.toVastError(signal.reason);
+        throw this.createError(reason.code, reason.message, reason.details);
+      }
+
+      throw this.createError(
+        VastErrorCode.TRAFFICKING_ERROR,
+        'Failed to resolve VAST on server',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    body.requests.forEach((timing) => this.onRequest?.(timing));
+
+    if (body.error) {
+      throw this.fromResolvedError(body.error);
+    }
+
+    this.log(`[VastParser] Resolver returned ${body.ads.length} Ads`);
+
+    return {
+      ads: body.ads,
+      errors: body.errors.map((error) => this.fromResolvedError(error)),
+    };
+  }
+
+  /**
+   * Depth/circular kontrolü yap, VAST XML'i fetch ve parse et
+   */
+  private async loadDocument(
+    vastUrl: string,
+    depth: number,
+    chain: string[],
+    signal?: AbortSignal
+  ): Promise<VastXmlDocument> {
     this.log(`[VastParser] Parsing VAST at depth ${depth}: ${vastUrl}`);
 
     // Depth limit kontrolü
@@ -57,41 +212,74 @@ export class VastParser {
     }
 
     // Circular reference kontrolü
-    if (this.visitedUrls.has(vastUrl)) {
+    if (chain.includes(vastUrl)) {
       throw this.createError(
         VastErrorCode.WRAPPER_LIMIT_REACHED,
         'Circular wrapper reference detected',
         `URL already visited: ${vastUrl}`
       );
     }
-    this.visitedUrls.add(vastUrl);
 
-    try {
-      // 1. VAST XML'i fetch et
-      const xmlText = await this.fetchVast(vastUrl);
+    // 1. VAST XML'i fetch et
+    const xmlText = await this.fetchVast(vastUrl, depth, signal);
 
-      // 2. XML'i parse et
-      const doc = this.parseXml(xmlText);
+    // 2. XML'i parse et
+    return this.parseXml(xmlText);
+  }
 
-      // 3. Wrapper mı InLine mı kontrol et
-      const ad = doc.querySelector('VAST > Ad');
-      if (!ad) {
+  /**
+   * Document'teki Ad element'lerini bul (hiç yoksa hata)
+   */
+  private findAds(doc: VastXmlDocument, depth: number): Element[] {
+    const ads = Array.from(doc.querySelectorAll('VAST > Ad'));
+
+    if (ads.length === 0) {
+      // Wrapper'ın işaret ettiği VAST boşsa spec'e göre 303
+      if (depth > 0) {
         throw this.createError(
-          VastErrorCode.VAST_SCHEMA_VALIDATION_ERROR,
-          'No Ad element found in VAST',
-          'VAST XML must contain <VAST><Ad>...</Ad></VAST>'
+          VastErrorCode.WRAPPER_NO_ADS,
+          'No ads VAST response after one or more Wrappers',
+          `Wrapper depth: ${depth}`
         );
       }
+      throw this.createError(
+        VastErrorCode.VAST_SCHEMA_VALIDATION_ERROR,
+        'No Ad element found in VAST',
+        'VAST XML must contain <VAST><Ad>...</Ad></VAST>'
+      );
+    }
 
+    return ads;
+  }
+
+  /**
+   * Tek bir Ad element'ini çöz (Wrapper ise recursive)
+   * Hata olursa bu seviyenin <Error> URI'leri error'a eklenir
+   */
+  private async parseAd(
+    ad: Element,
+    depth: number,
+    chain: string[],
+    signal?: AbortSignal
+  ): Promise<ParsedVast> {
+    // Bu seviyedeki Ad'in <Error> URI'leri (hata olursa error'a eklenir)
+    let adErrorUrls: string[] = [];
+
+    try {
+      // 3. Wrapper mı InLine mı kontrol et
       const wrapper = ad.querySelector('Wrapper');
       const inline = ad.querySelector('InLine');
 
+      let parsedVast: ParsedVast;
+
       if (wrapper) {
         // Wrapper: Recursive çözüm
-        return await this.parseWrapper(wrapper, depth);
+        adErrorUrls = this.extractErrors(wrapper);
+        parsedVast = await this.parseWrapper(wrapper, depth, chain, signal);
       } else if (inline) {
         // InLine: Final reklam
-        return this.parseInline(inline);
+        adErrorUrls = this.extractErrors(inline);
+        parsedVast = this.parseInline(inline);
       } else {
         throw this.createError(
           VastErrorCode.VAST_SCHEMA_VALIDATION_ERROR,
@@ -99,33 +287,63 @@ export class VastParser {
           'Found neither Wrapper nor InLine in Ad element'
         );
       }
+
+      // Pod bilgisi en dıştaki Ad'den gelir
+      const sequence = parseInt(ad.getAttribute('sequence') || '', 10);
+
+      return {
+        ...parsedVast,
+        adId: ad.getAttribute('id') || parsedVast.adId,
+        sequence: isNaN(sequence) ? undefined : sequence,
+      };
     } catch (error) {
-      // Hata durumunda rethrow
-      if (error instanceof Error && 'code' in error) {
-        throw error; // VastError zaten throw edilmiş
-      }
-      throw this.createError(
-        VastErrorCode.UNDEFINED_ERROR,
-        'VAST parsing failed',
-        error instanceof Error ? error.message : String(error)
-      );
+      const vastError = this.toVastError(error);
+
+      // Bu seviyenin Error URI'lerini iç seviyelerinkilerin önüne ekle
+      vastError.errorUrls = [...adErrorUrls, ...(vastError.errorUrls || [])];
+
+      throw vastError;
     }
   }
 
   /**
-   * VAST XML'i network'ten fetch et (proxy ile)
+   * VAST XML'i transport üzerinden fetch et (proxy transport'ta uygulanır)
+   * - Request timeout'u dolarsa 301
+   * - Dış signal (zincir timeout'u vb.) iptal ederse onun hatası
+   * Süre onRequest ile raporlanır.
    */
-  private async fetchVast(vastUrl: string): Promise<string> {
-    const proxiedUrl = this.applyProxy(vastUrl);
-    this.log(`[VastParser] Fetching: ${proxiedUrl}`);
+  private async fetchVast(vastUrl: string, depth: number, signal?: AbortSignal): Promise<string> {
+    this.log(`[VastParser] Fetching: ${vastUrl}`);
+
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    let isTimedOut = false;
+
+    const abortFromParent = () => controller.abort();
+    signal?.addEventListener('abort', abortFromParent);
+
+    const timer = this.requestTimeout > 0
+      ? setTimeout(() => {
+          isTimedOut = true;
+          controller.abort();
+        }, this.requestTimeout)
+      : null;
+
+    let status: VastRequestTiming['status'] = 'error';
 
     try {
-      const response = await fetch(proxiedUrl, {
-        method: 'GET',
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+
+      const response = await this.transport.send({
+        url: vastUrl,
+        kind: 'vast',
         headers: {
           Accept: 'application/xml, text/xml, */*',
         },
         cache: 'no-cache',
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -135,23 +353,52 @@ export class VastParser {
       const xmlText = await response.text();
       this.log(`[VastParser] Fetched ${xmlText.length} bytes`);
 
+      status = 'success';
       return xmlText;
     } catch (error) {
+      if (signal?.aborted) {
+        // Her Ad kendi Error URI'lerini ekleyeceği için iptal hatasının kopyası
+        const reason = this.toVastError(signal.reason);
+        status = reason.code === VastErrorCode.WRAPPER_TIMEOUT ? 'timeout' : 'error';
+        throw this.createError(reason.code, reason.message, reason.details);
+      }
+
+      if (isTimedOut) {
+        status = 'timeout';
+        throw this.createError(
+          VastErrorCode.WRAPPER_TIMEOUT,
+          'VAST request timed out',
+          `No response within ${this.requestTimeout}ms: ${vastUrl}`
+        );
+      }
+
       throw this.createError(
         VastErrorCode.TRAFFICKING_ERROR,
         'Failed to fetch VAST XML',
         error instanceof Error ? error.message : String(error)
       );
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', abortFromParent);
+
+      this.onRequest?.({
+        url: vastUrl,
+        depth,
+        status,
+        elapsedMs: Date.now() - startedAt,
+      });
     }
   }
 
   /**
    * XML string'ini DOM Document'e parse et
    */
-  private parseXml(xmlText: string): Document {
+  private parseXml(xmlText: string): VastXmlDocument {
     this.log('[VastParser] Parsing XML with DOMParser');
 
-    const parser = new DOMParser();
+    const parser = this.domParser ?? new DOMParser();
     const doc = parser.parseFromString(xmlText, 'text/xml');
 
     // Parse error kontrolü
@@ -185,7 +432,9 @@ export class VastParser {
    */
   private async parseWrapper(
     wrapper: Element,
-    currentDepth: number
+    currentDepth: number,
+    chain: string[],
+    signal?: AbortSignal
   ): Promise<ParsedVast> {
     this.log(`[VastParser] Parsing Wrapper at depth ${currentDepth}`);
 
@@ -200,19 +449,42 @@ export class VastParser {
     }
 
     // Wrapper'daki tracking URL'lerini çıkar
-    const wrapperTracking = this.extractTracking(wrapper);
+    const { tracking: wrapperTracking, unknownTracking: wrapperUnknownTracking } =
+      this.extractTracking(wrapper);
     const wrapperImpressions = this.extractImpressions(wrapper);
 
+    // Wrapper'daki ClickTracking URL'leri (tıklamada nested ile birlikte fire edilir)
+    const wrapperClickTracking = Array.from(wrapper.querySelectorAll('VideoClicks > ClickTracking'))
+      .map((el) => el.textContent?.trim())
+      .filter(Boolean) as string[];
+
+    // Wrapper'daki NonLinear tracking'leri (nested NonLinear'lara eklenir)
+    const wrapperNonLinearAds = wrapper.querySelector('NonLinearAds');
+    const wrapperNonLinearTracking = wrapperNonLinearAds
+      ? this.extractTracking(wrapperNonLinearAds).tracking
+      : undefined;
+
     // Nested VAST'ı recursive parse et
-    const nestedVast = await this.parse(vastAdTagUri, currentDepth + 1);
+    const nestedVast = await this.parse(vastAdTagUri, currentDepth + 1, chain, signal);
+
+    if (wrapperNonLinearTracking) {
+      nestedVast.nonLinears = nestedVast.nonLinears.map((nonLinear) => ({
+        ...nonLinear,
+        tracking: this.mergeTracking(wrapperNonLinearTracking, nonLinear.tracking),
+      }));
+    }
 
     // Tracking URL'lerini merge et (wrapper + nested)
     return this.mergeVastData(
       {
         mediaFiles: [],
         impressions: wrapperImpressions,
+        errors: this.extractErrors(wrapper),
         tracking: wrapperTracking,
-        clickTracking: [],
+        unknownTracking: wrapperUnknownTracking,
+        clickTracking: wrapperClickTracking,
+        companions: [],
+        nonLinears: [],
       },
       nestedVast
     );
@@ -231,23 +503,61 @@ export class VastParser {
     // Impression URL'leri
     const impressions = this.extractImpressions(inline);
 
-    // Linear creative'i bul
+    // Error URI'leri
+    const errors = this.extractErrors(inline);
+
+    // Linear ve NonLinear creative'leri bul
     const linear = inline.querySelector('Creatives > Creative > Linear');
-    if (!linear) {
+    const nonLinears = this.extractNonLinears(inline);
+
+    if (!linear && nonLinears.length === 0) {
       throw this.createError(
         VastErrorCode.GENERAL_LINEAR_ERROR,
-        'No Linear creative found',
-        'InLine must contain a Linear creative'
+        'No Linear or NonLinear creative found',
+        'InLine must contain a Linear or NonLinear creative'
       );
     }
 
+    // Linear yoksa overlay-only reklam (video alanları boş kalır)
+    const linearData = linear
+      ? this.parseLinear(linear)
+      : {
+          mediaFiles: [],
+          tracking: {} as Record<VastEventType, string[]>,
+          unknownTracking: {},
+          clickTracking: [],
+        };
+
+    // Companion reklamlar
+    const companions = this.extractCompanions(inline);
+
+    return {
+      ...linearData,
+      impressions,
+      errors,
+      adTitle,
+      adDescription,
+      companions,
+      nonLinears,
+    };
+  }
+
+  /**
+   * Linear creative'i parse et (video, tracking, click'ler)
+   */
+  private parseLinear(
+    linear: Element
+  ): Pick<
+    ParsedVast,
+    'mediaFiles' | 'tracking' | 'unknownTracking' | 'clickThrough' | 'clickTracking' | 'duration' | 'skipOffset'
+  > {
     // Duration
     const durationText = linear.querySelector('Duration')?.textContent?.trim();
     const duration = durationText ? this.parseDuration(durationText) : undefined;
 
     // Skip offset
-    const skipOffsetAttr = linear.getAttribute('skipoffset');
-    const skipOffset = skipOffsetAttr ? this.parseDuration(skipOffsetAttr) : undefined;
+    const skipOffsetAttr = linear.getAttribute('skipoffset')?.trim();
+    const skipOffset = skipOffsetAttr ? this.parseSkipOffset(skipOffsetAttr) : undefined;
 
     // MediaFiles
     const mediaFiles = this.extractMediaFiles(linear);
@@ -260,7 +570,7 @@ export class VastParser {
     }
 
     // Tracking events
-    const tracking = this.extractTracking(linear);
+    const { tracking, unknownTracking } = this.extractTracking(linear);
 
     // VideoClicks
     const clickThrough = linear.querySelector('VideoClicks > ClickThrough')?.textContent?.trim();
@@ -270,12 +580,10 @@ export class VastParser {
 
     return {
       mediaFiles,
-      impressions,
       tracking,
+      unknownTracking,
       clickThrough,
       clickTracking,
-      adTitle,
-      adDescription,
       duration,
       skipOffset,
     };
@@ -312,7 +620,7 @@ export class VastParser {
 
   /**
    * MediaFile'ları önceliklendirerek sırala
-   * Öncelik: MP4 > WebM > Others, sonra bitrate
+   * Öncelik: MP4 > WebM > HLS > DASH > Others, sonra bitrate
    */
   private prioritizeMediaFiles(mediaFiles: MediaFile[]): MediaFile[] {
     return mediaFiles.sort((a, b) => {
@@ -329,14 +637,120 @@ export class VastParser {
     });
   }
 
+  /**
+   * CompanionAds > Companion element'lerini parse et
+   */
+  private extractCompanions(inline: Element): CompanionAd[] {
+    const companionElements = Array.from(
+      inline.querySelectorAll('Creatives > Creative > CompanionAds > Companion')
+    );
+
+    const companions: CompanionAd[] = companionElements
+      .map((el): CompanionAd | null => {
+        const resources = this.extractResources(el);
+        if (resources.length === 0) return null;
+
+        return {
+          id: el.getAttribute('id') || undefined,
+          width: parseInt(el.getAttribute('width') || '0', 10),
+          height: parseInt(el.getAttribute('height') || '0', 10),
+          resources,
+          clickThrough: el.querySelector('CompanionClickThrough')?.textContent?.trim() || undefined,
+          altText: el.querySelector('AltText')?.textContent?.trim() || undefined,
+          tracking: this.extractTracking(el).tracking,
+        };
+      })
+      .filter((companion): companion is CompanionAd => companion !== null);
+
+    this.log(`[VastParser] Found ${companions.length} Companions`);
+
+    return companions;
+  }
+
+  /**
+   * NonLinearAds > NonLinear element'lerini parse et
+   * VAST 2.0'da TrackingEvents NonLinearAds seviyesindedir, tüm NonLinear'lara kopyalanır
+   */
+  private extractNonLinears(inline: Element): NonLinearAd[] {
+    const nonLinearAds = inline.querySelector('Creatives > Creative > NonLinearAds');
+    if (!nonLinearAds) {
+      return [];
+    }
+
+    const { tracking } = this.extractTracking(nonLinearAds);
+
+    const nonLinears: NonLinearAd[] = Array.from(nonLinearAds.children)
+      .filter((el) => el.tagName === 'NonLinear')
+      .map((el): NonLinearAd | null => {
+        const resources = this.extractResources(el);
+        if (resources.length === 0) return null;
+
+        const minSuggestedDuration = el.getAttribute('minSuggestedDuration');
+
+        return {
+          id: el.getAttribute('id') || undefined,
+          width: parseInt(el.getAttribute('width') || '0', 10),
+          height: parseInt(el.getAttribute('height') || '0', 10),
+          resources,
+          clickThrough: el.querySelector('NonLinearClickThrough')?.textContent?.trim() || undefined,
+          minSuggestedDuration: minSuggestedDuration
+            ? this.parseDuration(minSuggestedDuration)
+            : undefined,
+          tracking,
+        };
+      })
+      .filter((nonLinear): nonLinear is NonLinearAd => nonLinear !== null);
+
+    this.log(`[VastParser] Found ${nonLinears.length} NonLinears`);
+
+    return nonLinears;
+  }
+
+  /**
+   * Static/IFrame/HTML resource'larını extract et (Companion ve NonLinear için)
+   */
+  private extractResources(element: Element): CreativeResource[] {
+    const resources: CreativeResource[] = [];
+
+    Array.from(element.children).forEach((el) => {
+      const content = el.textContent?.trim();
+      if (!content) return;
+
+      switch (el.tagName) {
+        case 'StaticResource':
+          resources.push({
+            type: 'static',
+            content,
+            creativeType: el.getAttribute('creativeType') || undefined,
+          });
+          break;
+
+        case 'IFrameResource':
+          resources.push({ type: 'iframe', content });
+          break;
+
+        case 'HTMLResource':
+          resources.push({ type: 'html', content });
+          break;
+      }
+    });
+
+    return resources;
+  }
+
   /**
    * MediaFile type score'u (yüksek = daha iyi)
    */
   private getMediaTypeScore(type: string): number {
     const lowerType = type.toLowerCase();
 
-    if (lowerType.includes('mp4')) return 3;
-    if (lowerType.includes('webm')) return 2;
+    // Adaptive stream'ler adapter gerektirir (native HLS veya publisher player'ı)
+    const streamingFormat = getStreamingFormat(lowerType);
+    if (streamingFormat === 'hls') return 3;
+    if (streamingFormat === 'dash') return 2;
+
+    if (lowerType.includes('mp4')) return 5;
+    if (lowerType.includes('webm')) return 4;
     if (lowerType.includes('video')) return 1;
 
     return 0;
@@ -344,27 +758,58 @@ export class VastParser {
 
   /**
    * Tracking event URL'lerini extract et
+   *
+   * Event isimleri case-insensitive normalize edilir ("firstQuartile" -> "FirstQuartile").
+   * Tanınmayan event'ler drop edilmez, ham isimleriyle unknownTracking'e konur.
    */
-  private extractTracking(element: Element): Record<VastEventType, string[]> {
-    const tracking: Record<string, string[]> = {};
-
-    const trackingElements = Array.from(element.querySelectorAll('TrackingEvents > Tracking'));
+  private extractTracking(element: Element): {
+    tracking: Record<VastEventType, string[]>;
+    unknownTracking: Record<string, string[]>;
+  } {
+    const tracking: Partial<Record<VastEventType, string[]>> = {};
+    const unknownTracking: Record<string, string[]> = {};
+
+    // Wrapper gibi üst element'lerde Companion/NonLinear tracking'leri hariç tut
+    const trackingElements = Array.from(element.querySelectorAll('TrackingEvents > Tracking'))
+      .filter((el) => {
+        const owner = el.closest('CompanionAds, NonLinearAds');
+        return !owner || owner === element || !element.contains(owner);
+      });
 
     trackingElements.forEach((el) => {
-      const event = el.getAttribute('event');
+      const rawEvent = el.getAttribute('event');
       const url = el.textContent?.trim();
 
-      if (event && url) {
-        if (!tracking[event]) {
-          tracking[event] = [];
+      if (!rawEvent || !url) {
+        return;
+      }
+
+      const eventType = normalizeEventName(rawEvent);
+
+      if (eventType) {
+        if (!tracking[eventType]) {
+          tracking[eventType] = [];
+        }
+        tracking[eventType].push(url);
+      } else {
+        if (!unknownTracking[rawEvent]) {
+          unknownTracking[rawEvent] = [];
         }
-        tracking[event].push(url);
+        unknownTracking[rawEvent].push(url);
       }
     });
 
     this.log(`[VastParser] Extracted tracking for ${Object.keys(tracking).length} events`);
 
-    return tracking as Record<VastEventType, string[]>;
+    const unknownEvents = Object.keys(unknownTracking);
+    if (unknownEvents.length > 0) {
+      this.log(`[VastParser] Unknown tracking events kept: ${unknownEvents.join(', ')}`, true);
+    }
+
+    return {
+      tracking: tracking as Record<VastEventType, string[]>,
+      unknownTracking,
+    };
   }
 
   /**
@@ -380,6 +825,21 @@ export class VastParser {
     return impressions;
   }
 
+  /**
+   * <Error> URI'lerini extract et
+   * Sadece InLine/Wrapper'ın direkt child'ları (creative içindekiler değil)
+   */
+  private extractErrors(element: Element): string[] {
+    const errors = Array.from(element.children)
+      .filter((el) => el.tagName === 'Error')
+      .map((el) => el.textContent?.trim())
+      .filter(Boolean) as string[];
+
+    this.log(`[VastParser] Extracted ${errors.length} error URIs`);
+
+    return errors;
+  }
+
   /**
    * Wrapper ve nested VAST verilerini merge et
    */
@@ -392,14 +852,16 @@ export class VastParser {
     // Impressions merge
     const impressions = [...wrapper.impressions, ...nested.impressions];
 
+    // Error URI merge (dış wrapper önce)
+    const errors = [...wrapper.errors, ...nested.errors];
+
     // Tracking merge (event bazında array'leri birleştir)
-    const tracking: Record<VastEventType, string[]> = { ...nested.tracking };
-    Object.entries(wrapper.tracking).forEach(([event, urls]) => {
-      const eventType = event as VastEventType;
-      if (!tracking[eventType]) {
-        tracking[eventType] = [];
-      }
-      tracking[eventType] = [...urls, ...tracking[eventType]];
+    const tracking = this.mergeTracking(wrapper.tracking, nested.tracking);
+
+    // Unknown tracking merge (ham event ismi bazında)
+    const unknownTracking: Record<string, string[]> = { ...nested.unknownTracking };
+    Object.entries(wrapper.unknownTracking).forEach(([event, urls]) => {
+      unknownTracking[event] = [...urls, ...(unknownTracking[event] || [])];
     });
 
     // ClickTracking merge
@@ -409,16 +871,36 @@ export class VastParser {
       ...nested, // nested'deki tüm alanları al
       mediaFiles,
       impressions,
+      errors,
       tracking,
+      unknownTracking,
       clickTracking,
     };
   }
 
   /**
-   * Duration string'ini saniye'ye çevir (HH:MM:SS formatı)
+   * Event bazında tracking URL'lerini birleştir (wrapper URL'leri önce)
+   */
+  private mergeTracking(
+    wrapperTracking: Record<VastEventType, string[]>,
+    nestedTracking: Record<VastEventType, string[]>
+  ): Record<VastEventType, string[]> {
+    const tracking: Record<VastEventType, string[]> = { ...nestedTracking };
+    Object.entries(wrapperTracking).forEach(([event, urls]) => {
+      const eventType = event as VastEventType;
+      if (!tracking[eventType]) {
+        tracking[eventType] = [];
+      }
+      tracking[eventType] = [...urls, ...tracking[eventType]];
+    });
+    return tracking;
+  }
+
+  /**
+   * Duration string'ini saniye'ye çevir (HH:MM:SS veya HH:MM:SS.mmm formatı)
    */
   private parseDuration(duration: string): number {
-    const parts = duration.split(':').map((p) => parseInt(p, 10));
+    const parts = duration.split(':').map((p) => parseFloat(p));
 
     if (parts.length === 3) {
       const [hours, minutes, seconds] = parts;
@@ -426,37 +908,44 @@ export class VastParser {
     }
 
     // Fallback: sadece saniye olarak parse et
-    return parseInt(duration, 10) || 0;
+    return parseFloat(duration) || 0;
   }
 
   /**
-   * Proxy uygula (config'e göre)
+   * skipoffset attribute'unu parse et
+   * "25%" yüzde olarak kalır (süre oynatmada belli olur), HH:MM:SS(.mmm) saniyeye çevrilir
    */
-  private applyProxy(url: string): string {
-    switch (this.proxyConfig.type) {
-      case 'none':
-        return url;
-
-      case 'cors-anywhere':
-        return `https://cors-anywhere.herokuapp.com/${url}`;
-
-      case 'allorigins':
-        // allorigins URL encoding gerektirir
-        return `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-
-      case 'custom':
-        if (this.proxyConfig.customUrl) {
-          // Trailing slash kontrolü
-          const baseUrl = this.proxyConfig.customUrl.endsWith('/')
-            ? this.proxyConfig.customUrl
-            : `${this.proxyConfig.customUrl}/`;
-          return `${baseUrl}${url}`;
-        }
-        return url;
+  private parseSkipOffset(skipOffset: string): SkipOffset | undefined {
+    if (skipOffset.endsWith('%')) {
+      const percent = parseFloat(skipOffset);
+      return isNaN(percent) ? undefined : `${percent}%`;
+    }
+
+    return this.parseDuration(skipOffset);
+  }
 
-      default:
-        return url;
+  /**
+   * Herhangi bir hatayı VastError'a çevir (VastError değilse UNDEFINED_ERROR)
+   */
+  private toVastError(error: unknown): VastError & Error {
+    if (error instanceof Error && 'code' in error) {
+      return error as VastError & Error;
     }
+
+    return this.createError(
+      VastErrorCode.UNDEFINED_ERROR,
+      'VAST parsing failed',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  /**
+   * Resolver endpoint'inden gelen hatayı VastError'a çevir
+   */
+  private fromResolvedError(resolved: ResolvedVastError): VastError & Error {
+    const error = this.createError(resolved.code, resolved.message, resolved.details);
+    error.errorUrls = resolved.errorUrls;
+    return error;
   }
 
   /**
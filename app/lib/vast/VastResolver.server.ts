@@ -0,0 +1,98 @@
+/**
+ * VAST Resolver (Server) - Wrapper Zincirini Server'da Çözme
+ *
+ * VastParser'ı Node ortamında çalıştırır ve sonucu JSON'a serialize edilebilir
+ * VastResolveResponse olarak döndürür. /api/vast route'u ve home loader'ı kullanır.
+ *
+ * NEDEN SERVER:
+ * - Ad server'lar çoğunlukla CORS header'ı vermez (public proxy gerekmez)
+ * - Wrapper zincirinin her adımı tarayıcı yerine server'dan gider (daha az gecikme)
+ *
+ * GÜVENLİK:
+ * - Sadece allowlist'teki host'lara istek atılır: ilk tag, her wrapper VASTAdTagURI'si
+ *   ve her redirect adımı kontrol edilir (SSRF)
+ *
+ * Node'da DOMParser olmadığı için XML linkedom ile parse edilir.
+ * .server.ts uzantısı modülün (ve linkedom'un) client bundle'ına girmesini engeller.
+ */
+
+import { DOMParser as LinkedomDOMParser } from 'linkedom';
+import { VastParser } from './VastParser';
+import { fetchAllowedUrl } from './CorsProxy.server';
+import type {
+  ResolvedVastError,
+  Transport,
+  VastError,
+  VastRequestTiming,
+  VastResolveOptions,
+  VastResolveResponse,
+} from './types';
+
+/**
+ * Server'da tek bir VAST request'inin default timeout'u (ms)
+ */
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * VAST URL'ini (wrapper zinciri dahil) server'da çöz
+ *
+ * @param vastUrl - VAST XML URL'i
+ * @param options - Host allowlist'i, depth, timeout, forward edilecek header'lar
+ * @returns Çözülen Ad'ler, hatalar ve request süreleri (throw etmez)
+ */
+export async function resolveVast(
+  vastUrl: string,
+  options: VastResolveOptions
+): Promise<VastResolveResponse> {
+  const requests: VastRequestTiming[] = [];
+
+  // Her request (wrapper ve redirect adımları dahil) allowlist'ten geçer
+  const transport: Transport = {
+    send: (request) =>
+      fetchAllowedUrl(
+        request.url,
+        { ...request.headers, ...options.requestHeaders },
+        { allowedHosts: options.allowedHosts },
+        request.signal
+      ),
+  };
+
+  const parser = new VastParser({
+    maxWrapperDepth: options.maxWrapperDepth,
+    requestTimeout: options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT,
+    transport,
+    domParser: new LinkedomDOMParser(),
+    onRequest: (timing) => requests.push(timing),
+    debug: options.debug,
+  });
+
+  try {
+    const response = await parser.parseAll(vastUrl, options.signal);
+
+    return {
+      ads: response.ads,
+      errors: response.errors.map(toResolvedError),
+      requests,
+    };
+  } catch (error) {
+    // parseAll sadece VastError throw eder
+    return {
+      ads: [],
+      errors: [],
+      error: toResolvedError(error as VastError),
+      requests,
+    };
+  }
+}
+
+/**
+ * VastError'ı JSON'a serialize edilebilir hale getir
+ */
+function toResolvedError(error: VastError): ResolvedVastError {
+  return {
+    code: error.code,
+    message: error.message,
+    details: error.details,
+    errorUrls: error.errorUrls || [],
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Viewability Tracker - MRC Video Viewability Ölçümü
+ *
+ * Bu sınıf reklam oynarken player'ın gerçekten görülebilir olup olmadığını ölçer
+ * ve MRC video standardı karşılandığında viewable impression bildirir.
+ *
+ * MRC VIDEO STANDARDI:
+ * - Player piksellerinin en az %50'si viewport'ta
+ * - Sayfa (tab) görünür
+ * - Video oynuyor
+ * - Bu koşullar en az 2 saniye KESİNTİSİZ sağlanmalı
+ *
+ * ÖLÇÜM:
+ * - IntersectionObserver: Görünür oran (percent-in-view)
+ * - document.visibilitychange: Tab görünürlüğü
+ * - play/pause: Oynatma durumu
+ * - IntersectionObserver yoksa (veya ilk gözlem gelmeden) ölçüm yapılamaz
+ *   (viewable impression fire edilmez)
+ */
+
+import type { ViewabilityTrackerConfig, ViewabilityState } from './types';
+
+/**
+ * IntersectionObserver eşikleri (percent-in-view çözünürlüğü)
+ */
+const INTERSECTION_THRESHOLDS = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+export class ViewabilityTracker {
+  // Konfigürasyon
+  private videoElement: HTMLVideoElement;
+  private minVisiblePercent: number;
+  private minViewableTime: number;
+  private onChange?: (state: ViewabilityState) => void;
+  private onViewableImpression: () => void;
+  private debug: boolean;
+
+  // Ölçüm
+  private observer: IntersectionObserver | null = null;
+  private percentInView: number = 0;
+  private isPageVisible: boolean = true;
+  private isMeasurable: boolean = false;
+
+  // Kesintisiz viewable süre
+  private viewableSince: number | null = null;
+  private viewableTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasViewableImpression: boolean = false;
+
+  // Event handler'lar (cleanup için saklıyoruz)
+  private boundHandleVisibilityChange: () => void;
+  private boundHandlePlaybackChange: () => void;
+
+  constructor(config: ViewabilityTrackerConfig) {
+    this.videoElement = config.videoElement;
+    this.minVisiblePercent = config.minVisiblePercent ?? 0.5;
+    this.minViewableTime = config.minViewableTime ?? 2000;
+    this.onChange = config.onChange;
+    this.onViewableImpression = config.onViewableImpression;
+    this.debug = config.debug || false;
+
+    this.boundHandleVisibilityChange = this.handleVisibilityChange.bind(this);
+    this.boundHandlePlaybackChange = this.update.bind(this);
+  }
+
+  /**
+   * Ölçümü başlat
+   */
+  init(): void {
+    this.isPageVisible = document.visibilityState !== 'hidden';
+
+    if (typeof IntersectionObserver === 'undefined') {
+      this.log('[ViewabilityTracker] IntersectionObserver not supported, viewability not measurable', true);
+    } else {
+      // İlk gözlem gelene kadar görünür oran bilinmiyor (ölçülemez sayılır)
+      this.observer = new IntersectionObserver(
+        (entries) => {
+          const entry = entries[entries.length - 1];
+          this.isMeasurable = true;
+          this.percentInView = entry.isIntersecting ? entry.intersectionRatio : 0;
+          this.update();
+        },
+        { threshold: INTERSECTION_THRESHOLDS }
+      );
+      this.observer.observe(this.videoElement);
+    }
+
+    document.addEventListener('visibilitychange', this.boundHandleVisibilityChange);
+    this.videoElement.addEventListener('play', this.boundHandlePlaybackChange);
+    this.videoElement.addEventListener('pause', this.boundHandlePlaybackChange);
+    this.videoElement.addEventListener('ended', this.boundHandlePlaybackChange);
+
+    this.log('[ViewabilityTracker] Measuring viewability');
+  }
+
+  /**
+   * Mevcut ölçüm durumu
+   */
+  getState(): ViewabilityState {
+    return {
+      percentInView: this.percentInView,
+      isPageVisible: this.isPageVisible,
+      isViewable: this.viewableSince !== null,
+      continuousViewableMs: this.viewableSince !== null ? Date.now() - this.viewableSince : 0,
+      viewableImpression: this.hasViewableImpression,
+      isMeasurable: this.isMeasurable,
+    };
+  }
+
+  /**
+   * Ölçümü durdur ve temizle
+   */
+  destroy(): void {
+    if (this.observer) {
+      this.observer.disconnect();
+      this.observer = null;
+    }
+
+    document.removeEventListener('visibilitychange', this.boundHandleVisibilityChange);
+    this.videoElement.removeEventListener('play', this.boundHandlePlaybackChange);
+    this.videoElement.removeEventListener('pause', this.boundHandlePlaybackChange);
+    this.videoElement.removeEventListener('ended', this.boundHandlePlaybackChange);
+
+    this.clearViewableTimer();
+    this.viewableSince = null;
+  }
+
+  /**
+   * visibilitychange event handler
+   */
+  private handleVisibilityChange(): void {
+    this.isPageVisible = document.visibilityState !== 'hidden';
+    this.update();
+  }
+
+  /**
+   * Koşulları yeniden değerlendir
+   * Viewable olduysa süreyi başlat, çıktıysa sıfırla (kesintisiz olmalı)
+   */
+  private update(): void {
+    const isViewable =
+      this.isMeasurable &&
+      this.percentInView >= this.minVisiblePercent &&
+      this.isPageVisible &&
+      !this.videoElement.paused &&
+      !this.videoElement.ended;
+
+    if (isViewable && this.viewableSince === null) {
+      this.viewableSince = Date.now();
+
+      if (!this.hasViewableImpression) {
+        this.viewableTimer = setTimeout(() => this.fireViewableImpression(), this.minViewableTime);
+      }
+    } else if (!isViewable && this.viewableSince !== null) {
+      this.viewableSince = null;
+      this.clearViewableTimer();
+    }
+
+    this.onChange?.(this.getState());
+  }
+
+  /**
+   * MRC standardı karşılandı
+   */
+  private fireViewableImpression(): void {
+    this.viewableTimer = null;
+
+    if (this.hasViewableImpression) {
+      return;
+    }
+
+    this.hasViewableImpression = true;
+    this.log(
+      `[ViewabilityTracker] Viewable impression (${Math.round(this.minVisiblePercent * 100)}% for ${this.minViewableTime}ms)`
+    );
+
+    this.onViewableImpression();
+    this.onChange?.(this.getState());
+  }
+
+  /**
+   * Bekleyen viewable süre timer'ını iptal et
+   */
+  private clearViewableTimer(): void {
+    if (this.viewableTimer) {
+      clearTimeout(this.viewableTimer);
+      this.viewableTimer = null;
+    }
+  }
+
+  /**
+   * Debug log
+   */
+  private log(message: string, isError: boolean = false): void {
+    if (this.debug) {
+      if (isError) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    }
+  }
+
+}
@@ -15,6 +15,9 @@
  *   proxyConfig: { type: 'cors-anywhere' },
  * });
  *
+ * container.on('quartile', ({ quartile }) => console.log(quartile));
+ * container.on('stateChange', ({ state }) => setAdState(state));
+ *
  * await container.init();
  * container.play();
  * ```
@@ -22,10 +25,53 @@
 
 // Main class
 export { AdContainer } from './AdContainer';
+export { AdScheduler } from './AdScheduler';
+
+// VAST ve tracker request katmanı (proxy, decoration, instrumentation)
+export { FetchTransport } from './Transport';
+
+// Media source adapter'ları (HLS/DASH için publisher player'ı takılabilir)
+export {
+  NativeHlsMediaSourceAdapter,
+  ProgressiveMediaSourceAdapter,
+  getStreamingFormat,
+} from './MediaSourceAdapters';
 
 // Types (React components'lerde kullanılacak)
 export type {
   TrackingLog,
   ProxyType,
   ProxyConfig,
+  MacroValue,
+  CompanionAd,
+  CompanionSlot,
+  WaterfallTag,
+  WaterfallResult,
+  WaterfallAttempt,
+  AdBreak,
+  AdBreakOffset,
+  AdBreakState,
+  AdBreakStatus,
+  AdSchedulerState,
+  ViewabilityState,
+  AutoPauseConfig,
+  MediaFileScore,
+  MediaFileScoreContext,
+  MediaFileSelectionConfig,
+  MediaFile,
+  MediaSourceAdapter,
+  StreamingFormat,
+  TimeoutConfig,
+  VastRequestTiming,
+  AdContainerState,
+  AdContainerEventMap,
+  AdContainerEventType,
+  AdContainerEventListener,
+  QuartileEventType,
+  Transport,
+  TransportRequest,
+  TransportRequestKind,
+  TransportHooks,
+  TrackerTransport,
+  FetchTransportConfig,
 } from './types';
@@ -5,6 +5,8 @@
  * Framework-agnostic (React'a bağımlı değil) olarak tasarlanmıştır.
  */
 
+import type { MacroExpander } from './MacroExpander';
+
 // ==================== PROXY CONFIGURATION ====================
 
 /**
@@ -13,8 +15,9 @@
  * - 'cors-anywhere': cors-anywhere.herokuapp.com servisi
  * - 'allorigins': allorigins.win servisi
  * - 'custom': Kullanıcının kendi proxy URL'i
+ * - 'first-party': Uygulamanın kendi proxy route'u (/api/proxy, host allowlist'li)
  */
-export type ProxyType = 'none' | 'cors-anywhere' | 'allorigins' | 'custom';
+export type ProxyType = 'none' | 'cors-anywhere' | 'allorigins' | 'custom' | 'first-party';
 
 /**
  * Proxy konfigürasyonu
@@ -25,16 +28,153 @@ export interface ProxyConfig {
 
   /** Custom proxy kullanılıyorsa, proxy'nin base URL'i */
   customUrl?: string;
+
+  /**
+   * First-party proxy route'unun URL'i (default: '/api/proxy')
+   * Container tag gibi başka origin'den kullanımda mutlak URL verilmeli
+   */
+  firstPartyUrl?: string;
+}
+
+/**
+ * First-party proxy route'unun (server) konfigürasyonu
+ */
+export interface CorsProxyConfig {
+  /**
+   * Proxy'lenebilecek host'lar
+   * "*.example.com" alt domain'leri (ve example.com'u) kapsar
+   */
+  allowedHosts: string[];
+
+  /** Upstream response'un maksimum boyutu (byte, default: 1 MB) */
+  maxResponseBytes?: number;
+
+  /** Upstream request timeout'u (ms, default: 10000) */
+  timeout?: number;
+
+  /** Takip edilecek maksimum redirect (her adımda allowlist kontrol edilir, default: 5) */
+  maxRedirects?: number;
+}
+
+// ==================== TRANSPORT ====================
+
+/**
+ * Transport üzerinden giden request'in türü
+ * - 'vast': VAST XML (wrapper zinciri dahil)
+ * - 'tracker': Impression/tracking/error ping'i
+ * - 'resolver': VAST resolver endpoint'i (first-party, proxy'lenmez)
+ */
+export type TransportRequestKind = 'vast' | 'tracker' | 'resolver';
+
+/**
+ * Transport'a verilen request
+ */
+export interface TransportRequest {
+  /** Hedef URL (proxy uygulanmamış) */
+  url: string;
+
+  /** Request türü */
+  kind: TransportRequestKind;
+
+  /** Request header'ları */
+  headers: Record<string, string>;
+
+  /** Fetch mode (tracker'lar 'no-cors') */
+  mode?: RequestMode;
+
+  /** Cookie politikası */
+  credentials?: RequestCredentials;
+
+  /** Cache politikası */
+  cache?: RequestCache;
+
+  /** Sayfa kapanırken de tamamlansın (fetch keepalive) */
+  keepalive?: boolean;
+
+  /** Request'i iptal eder */
+  signal?: AbortSignal;
+}
+
+/**
+ * Tracker gönderim yöntemi
+ * - 'fetch': no-cors fetch (sayfa kapanırken iptal olabilir)
+ * - 'keepalive': fetch keepalive (sayfa kapansa da tamamlanır)
+ * - 'beacon': navigator.sendBeacon (POST, sayfa kapansa da gider)
+ * - 'image': Image pixel (GET)
+ */
+export type TrackerTransport = 'fetch' | 'keepalive' | 'beacon' | 'image';
+
+/**
+ * VAST ve tracker request'lerini gönderen katman
+ * Publisher test için in-memory mock veya imzalı proxy gibi kendi transport'unu verebilir
+ */
+export interface Transport {
+  /**
+   * Request'i gönder
+   * HTTP hataları için de Response döner, sadece ağ hatası/iptalde reject olur
+   */
+  send(request: TransportRequest): Promise<Response>;
+
+  /**
+   * navigator.sendBeacon ile gönder (POST)
+   * Desteklenmiyorsa veya tarayıcı kuyruğa almadıysa false
+   */
+  sendBeacon?(request: TransportRequest): boolean;
+
+  /**
+   * Image pixel ile gönder (GET)
+   * Pixel yüklenince veya hata verince resolve olur (cevap okunamaz)
+   */
+  sendPixel?(request: TransportRequest): Promise<void>;
+}
+
+/**
+ * Transport instrumentation hook'ları
+ */
+export interface TransportHooks {
+  /** Request gönderilmeden önce (requestUrl: proxy uygulanmış URL) */
+  onRequest?: (request: TransportRequest, requestUrl: string) => void;
+
+  /** Response geldiğinde */
+  onResponse?: (request: TransportRequest, response: Response, elapsedMs: number) => void;
+
+  /** Ağ hatası veya iptal */
+  onError?: (request: TransportRequest, error: unknown, elapsedMs: number) => void;
+}
+
+/**
+ * FetchTransport konfigürasyonu
+ */
+export interface FetchTransportConfig {
+  /** Proxy stratejisi (resolver request'lerine uygulanmaz) */
+  proxyConfig?: ProxyConfig;
+
+  /** Tüm request'lere eklenecek header'lar */
+  headers?: Record<string, string>;
+
+  /** Cookie politikası (verilirse request'in kendi politikasını override eder) */
+  credentials?: RequestCredentials;
+
+  /** Request'i gönderilmeden önce değiştir (imza, ek header vb.) */
+  decorateRequest?: (request: TransportRequest) => TransportRequest;
+
+  /** Instrumentation hook'ları */
+  hooks?: TransportHooks;
+
+  /** Debug mode */
+  debug?: boolean;
 }
 
 // ==================== VAST EVENT TYPES ====================
 
 /**
- * VAST 2.0 standart event tipleri
- * Bu eventler video oynatımı sırasında fire edilir
+ * VAST 2.0 standart event tipleri (canonical isimler)
+ * Bu eventler video oynatımı sırasında fire edilir.
+ * XML'deki ham event isimleri EventNormalizer ile bu tiplere map edilir.
  */
 export type VastEventType =
   | 'Impression'      // Reklam gösterildi
+  | 'CreativeView'    // Creative görüntülendi
   | 'Start'           // Video başladı (0%)
   | 'FirstQuartile'   // İlk çeyrek (%25)
   | 'Midpoint'        // Yarı nokta (%50)
@@ -46,16 +186,46 @@ export type VastEventType =
   | 'Unmute'          // Ses açıldı
   | 'Fullscreen'      // Tam ekran yapıldı
   | 'ExitFullscreen'  // Tam ekrandan çıkıldı
+  | 'Expand'          // Reklam genişletildi
+  | 'Collapse'        // Reklam daraltıldı
+  | 'AcceptInvitation' // Kullanıcı davete tıkladı (non-linear)
+  | 'Rewind'          // Video başa sarıldı
+  | 'Close'           // Reklam kapatıldı
   | 'Skip'            // Reklam atlandı
   | 'Click'           // Reklama tıklandı
   | 'Error';          // Hata oluştu
 
 // ==================== TRACKING LOG ====================
 
+/**
+ * Traffic Log'a düşen, tracker olmayan engine kayıtları
+ * - 'Waterfall': Waterfall'daki her VAST tag denemesi
+ * - 'ViewableImpression': MRC viewability standardı karşılandı
+ * - 'AutoPause' / 'AutoResume': Auto-pause policy'nin sistem pause/resume'u
+ *   (kullanıcı pause'larından ayrı tutulur, Pause/Resume tracker'ları fire edilmez)
+ * - 'MediaFile': Her MediaFile denemesi (başarısızsa raporlanacağı VAST koduyla)
+ * - 'VastRequest': Her VAST XML request'i (wrapper hop'ları dahil, süresiyle)
+ */
+export type EngineLogType =
+  | 'Waterfall'
+  | 'ViewableImpression'
+  | 'AutoPause'
+  | 'AutoResume'
+  | 'MediaFile'
+  | 'VastRequest';
+
+/**
+ * Traffic Log kaydının tipi (VAST event'i veya engine kaydı)
+ */
+export type LogEventType = VastEventType | EngineLogType;
+
 /**
  * Tracker request'in durumu
+ * - success: Cevap okundu ve 2xx (veya engine kaydı başarılı)
+ * - opaque: Gönderildi ama cevap okunamadı (no-cors fetch, beacon, pixel); başarı doğrulanmadı
+ * - error: Gönderilemedi veya cevap 2xx değil
  */
-export type TrackingStatus = 'pending' | 'success' | 'error';
+export type TrackingStatus = 'pending' | 'success' | 'opaque' | 'error';
 
 /**
  * Tracking log kaydı
@@ -68,20 +238,65 @@ export interface TrackingLog {
   /** Log oluşturulma zamanı */
   timestamp: Date;
 
-  /** VAST event tipi */
-  eventType: VastEventType;
+  /** VAST event tipi (veya engine kaydı tipi) */
+  eventType: LogEventType;
 
-  /** Fire edilen tracker URL'i */
+  /** Fire edilen tracker URL'i (XML'deki orijinal template) */
   trackerUrl: string;
 
+  /** Macro'ları expand edilmiş, gerçekte istek atılan URL */
+  expandedUrl?: string;
+
   /** Request durumu */
   status: TrackingStatus;
 
-  /** HTTP status code (başarılıysa) */
+  /** HTTP status code (cevap okunabildiyse; opaque kayıtlarda yok) */
   statusCode?: number;
 
   /** Hata mesajı (hata durumunda) */
   errorMessage?: string;
+
+  /** İşlemin sürdüğü süre (ms) - tracker, VAST request, MediaFile yükleme, waterfall tag */
+  elapsedMs?: number;
+
+  /** Tracker'ın takip ettiği redirect zinciri (ilk URL'den son URL'e, okunabildiyse) */
+  redirectChain?: string[];
+
+  /** Tracker'ın gönderildiği yöntem (sayfa kapanırken beacon'a geçilebilir) */
+  transport?: TrackerTransport;
+}
+
+// ==================== MACRO EXPANSION ====================
+
+/**
+ * Macro değeri
+ * Fonksiyon verilirse her expand'de yeniden çağrılır (dinamik değerler için)
+ */
+export type MacroValue = string | number | (() => string | number | undefined);
+
+/**
+ * Macro expansion sırasında kullanılan runtime bilgileri
+ */
+export interface MacroContext {
+  /** [ERRORCODE] için VAST error kodu */
+  errorCode?: number;
+
+  /** [CONTENTPLAYHEAD] için oynatma pozisyonu (saniye) */
+  contentPlayhead?: number;
+
+  /** [ASSETURI] için oynatılan MediaFile URL'i */
+  assetUri?: string;
+}
+
+/**
+ * MacroExpander konfigürasyonu
+ */
+export interface MacroExpanderConfig {
+  /**
+   * Publisher'a özel macro'lar (köşeli parantez olmadan, örn: { PAGEURL: '...' })
+   * Aynı isimli built-in macro'ları override eder
+   */
+  macros?: Record<string, MacroValue>;
 }
 
 // ==================== VAST XML PARSING ====================
@@ -113,20 +328,125 @@ export interface MediaFile {
   delivery?: string;
 }
 
+/**
+ * Adaptive streaming formatı (MIME type'tan belirlenir)
+ * - 'hls': application/x-mpegURL, application/vnd.apple.mpegurl
+ * - 'dash': application/dash+xml
+ */
+export type StreamingFormat = 'hls' | 'dash';
+
+/**
+ * Creative resource tipi (Companion ve NonLinear için)
+ * - 'static': StaticResource (image URL)
+ * - 'iframe': IFrameResource (iframe src URL)
+ * - 'html': HTMLResource (HTML snippet)
+ */
+export type CreativeResourceType = 'static' | 'iframe' | 'html';
+
+/**
+ * Creative resource bilgisi
+ */
+export interface CreativeResource {
+  /** Resource tipi */
+  type: CreativeResourceType;
+
+  /** URL (static/iframe) veya HTML içeriği (html) */
+  content: string;
+
+  /** StaticResource'un MIME type'ı (örn: 'image/png') */
+  creativeType?: string;
+}
+
+/**
+ * Companion reklam bilgisi
+ * Video'nun yanında, publisher'ın belirlediği slot'ta gösterilir
+ */
+export interface CompanionAd {
+  /** Companion ID'si (varsa) */
+  id?: string;
+
+  /** Genişlik (px) */
+  width: number;
+
+  /** Yükseklik (px) */
+  height: number;
+
+  /** Resource'lar (XML'deki sırayla) */
+  resources: CreativeResource[];
+
+  /** CompanionClickThrough URL'i */
+  clickThrough?: string;
+
+  /** Alternatif metin */
+  altText?: string;
+
+  /** Companion tracking URL'leri (creativeView) */
+  tracking: Record<VastEventType, string[]>;
+}
+
+/**
+ * NonLinear (overlay) reklam bilgisi
+ * Content video'nun üzerinde banner olarak gösterilir
+ */
+export interface NonLinearAd {
+  /** NonLinear ID'si (varsa) */
+  id?: string;
+
+  /** Genişlik (px) */
+  width: number;
+
+  /** Yükseklik (px) */
+  height: number;
+
+  /** Resource'lar (XML'deki sırayla) */
+  resources: CreativeResource[];
+
+  /** NonLinearClickThrough URL'i */
+  clickThrough?: string;
+
+  /** Önerilen minimum gösterim süresi (saniye) */
+  minSuggestedDuration?: number;
+
+  /** NonLinearAds tracking URL'leri (creativeView, close, vb.) */
+  tracking: Record<VastEventType, string[]>;
+}
+
+/**
+ * Linear reklamın atlanabilir olduğu an
+ * - number: Reklamın başından itibaren saniye
+ * - '25%': Reklam süresinin yüzdesi
+ */
+export type SkipOffset = number | `${number}%`;
+
 /**
  * Parse edilmiş VAST bilgisi
  * VastParser'ın döndürdüğü sonuç
  */
 export interface ParsedVast {
-  /** Video dosyaları listesi */
+  /** Ad ID'si (<Ad id="...">) */
+  adId?: string;
+
+  /** Pod içindeki sıra (<Ad sequence="...">), yoksa standalone ad */
+  sequence?: number;
+
+  /** Video dosyaları listesi (NonLinear-only reklamlarda boş) */
   mediaFiles: MediaFile[];
 
   /** Impression tracker URL'leri */
   impressions: string[];
 
+  /** <Error> URI'leri (tüm wrapper seviyeleri + inline, dıştan içe) */
+  errors: string[];
+
   /** Event bazında tracking URL'leri */
   tracking: Record<VastEventType, string[]>;
 
+  /**
+   * Tanınmayan (spec dışı) event'lerin tracking URL'leri
+   * Ham event ismi ile saklanır, drop edilmez
+   */
+  unknownTracking: Record<string, string[]>;
+
   /** Click-through URL (reklama tıklandığında gidilecek sayfa) */
   clickThrough?: string;
 
@@ -142,8 +462,26 @@ export interface ParsedVast {
   /** Reklam süresi (saniye) */
   duration?: number;
 
-  /** Skip offset (kaç saniye sonra atlanabilir) */
-  skipOffset?: number;
+  /** Skip offset: saniye veya süre yüzdesi ("25%") - kaç saniye sonra atlanabilir */
+  skipOffset?: SkipOffset;
+
+  /** Companion reklamlar */
+  companions: CompanionAd[];
+
+  /** NonLinear (overlay) reklamlar */
+  nonLinears: NonLinearAd[];
+}
+
+/**
+ * Multi-Ad VAST response'unun parse sonucu
+ * VastParser.parseAll'ın döndürdüğü sonuç
+ */
+export interface ParsedVastResponse {
+  /** Başarıyla çözülen Ad'ler (XML sırasıyla) */
+  ads: ParsedVast[];
+
+  /** Çözülemeyen Ad'lerin hataları (Error URI'leri ile) */
+  errors: (VastError & Error)[];
 }
 
 // ==================== AD CONTAINER CONFIG ====================
@@ -152,8 +490,23 @@ export interface ParsedVast {
  * AdContainer sınıfının constructor parametreleri
  */
 export interface AdContainerConfig {
-  /** VAST XML URL'i */
-  vastUrl: string;
+  /** VAST XML URL'i (vastUrls verilmezse kullanılır) */
+  vastUrl?: string;
+
+  /**
+   * Waterfall: Sırayla denenecek VAST tag'leri
+   * Oynatılabilir reklam bulunana kadar her tag denenir
+   */
+  vastUrls?: (string | WaterfallTag)[];
+
+  /**
+   * Waterfall'da timeout'u verilmemiş tag'ler için wrapper zinciri timeout'u (ms)
+   * Verilirse timeouts.wrapperChain'i override eder
+   */
+  tagTimeout?: number;
+
+  /** VAST request, wrapper zinciri ve MediaFile yükleme timeout'ları */
+  timeouts?: TimeoutConfig;
 
   /** HTML video elementi */
   videoElement: HTMLVideoElement;
@@ -164,6 +517,37 @@ export interface AdContainerConfig {
   /** Proxy konfigürasyonu */
   proxyConfig?: ProxyConfig;
 
+  /**
+   * VAST'ı server'da çözen endpoint (örn. '/api/vast')
+   * Verilirse wrapper zinciri server'da takip edilir (CORS ve proxy gerekmez)
+   */
+  vastResolverUrl?: string;
+
+  /**
+   * VAST ve tracker request'lerini gönderen transport
+   * Verilmezse proxyConfig ile bir FetchTransport oluşturulur
+   */
+  transport?: Transport;
+
+  /**
+   * Tracker gönderim yöntemi (default: 'keepalive', sayfa kapansa da tamamlanır)
+   * Sayfa gizliyken fire edilen fetch/image tracker'ları beacon ile gönderilir
+   */
+  trackerTransport?: TrackerTransport;
+
+  /**
+   * Tracker doğrulama modu: tracker'lar CORS fetch ile gönderilir, gerçek status code,
+   * süre ve redirect zinciri loglanır (beacon/image yerine fetch kullanılır)
+   * CORS header'ı vermeyen tracker'lar 'opaque' loglanır; status'ları için first-party proxy kullanın
+   */
+  verifyTrackers?: boolean;
+
+  /** Publisher'a özel macro'lar (tracker ve media URL'lerinde expand edilir) */
+  macros?: Record<string, MacroValue>;
+
+  /** Companion reklamların render edileceği slot'lar */
+  companionSlots?: CompanionSlot[];
+
   /** Maksimum wrapper depth (default: 3) */
   maxWrapperDepth?: number;
 
@@ -173,10 +557,117 @@ export interface AdContainerConfig {
   /** Auto-play etkinleştirilsin mi (default: true) */
   autoPlay?: boolean;
 
+  /** Reklam (pod'un tamamı veya overlay) bittiğinde çağrılır */
+  onComplete?: () => void;
+
+  /** Reklam yüklenemediğinde veya oynatılamadığında çağrılır */
+  onError?: (error: unknown) => void;
+
+  /** Kullanıcı reklamı atladığında çağrılır */
+  onSkip?: () => void;
+
+  /** Reklam MRC viewability standardını karşıladığında çağrılır (Ad başına bir kez) */
+  onViewableImpression?: () => void;
+
+  /** MediaFile seçim ayarları (scoring ağırlıkları, bant genişliği, özel scorer) */
+  mediaFileSelection?: MediaFileSelectionConfig;
+
+  /**
+   * Ek media source adapter'ları (örn: hls.js, dash.js)
+   * Built-in adapter'lardan (native HLS, progressive) önce denenir
+   */
+  mediaSourceAdapters?: MediaSourceAdapter[];
+
+  /**
+   * Auto-pause policy: Player görünürlük eşiğinin altına düşünce veya tab gizlenince
+   * reklamı durdur, geri gelince devam ettir (verilmezse kapalı)
+   */
+  autoPause?: AutoPauseConfig;
+
   /** Debug mode (console'a detaylı log yazsın mı) */
   debug?: boolean;
 }
 
+/**
+ * Auto-pause policy konfigürasyonu
+ */
+export interface AutoPauseConfig {
+  /** Bu oranın altında görünürse durdur (0-1 arası, default: 0.5) */
+  minVisiblePercent?: number;
+
+  /** Tab gizlenince durdur (default: true) */
+  pauseOnHidden?: boolean;
+}
+
+/**
+ * Companion slot'u
+ * Publisher'ın companion reklam için ayırdığı element
+ */
+export interface CompanionSlot {
+  /** Companion'ın render edileceği element */
+  element: HTMLElement;
+
+  /** Slot genişliği (px) - verilmezse boyut eşleştirmesi yapılmaz */
+  width?: number;
+
+  /** Slot yüksekliği (px) */
+  height?: number;
+}
+
+/**
+ * Waterfall'daki tek bir VAST tag'i
+ */
+export interface WaterfallTag {
+  /** VAST XML URL'i */
+  url: string;
+
+  /** Bu tag'in VAST çözümleme timeout'u (ms) */
+  timeout?: number;
+}
+
+/**
+ * Waterfall'daki bir tag denemesinin sonucu
+ */
+export interface WaterfallAttempt {
+  /** Tag'in waterfall'daki sırası (0'dan başlar) */
+  index: number;
+
+  /** VAST XML URL'i */
+  url: string;
+
+  /** Deneme sonucu */
+  status: 'won' | 'failed';
+
+  /** Başarısızsa VAST error kodu */
+  errorCode?: number;
+
+  /** Başarısızsa hata mesajı */
+  errorMessage?: string;
+
+  /** Denemenin sürdüğü süre (ms) */
+  elapsedMs: number;
+
+  /** VAST çözümlemesinin (wrapper zincirinin tamamı) sürdüğü süre (ms) */
+  resolveMs?: number;
+
+  /** Tag'in VAST request'leri (wrapper hop'ları dahil) */
+  vastRequests: VastRequestTiming[];
+
+  /** Oynatılan MediaFile'ın yüklenme süresi (ms, kazanan tag için) */
+  mediaLoadMs?: number;
+}
+
+/**
+ * Waterfall sonucu
+ */
+export interface WaterfallResult {
+  /** Kazanan tag (hiçbiri oynatılamadıysa undefined) */
+  winner?: WaterfallAttempt;
+
+  /** Tüm denemeler (sırayla) */
+  attempts: WaterfallAttempt[];
+}
+
 // ==================== AD CONTAINER STATE ====================
 
 /**
@@ -198,8 +689,330 @@ export interface AdContainerState {
   /** Hata mesajı */
   errorMessage?: string;
 
-  /** Parse edilmiş VAST bilgisi */
+  /** Parse edilmiş VAST bilgisi (şu an yüklü Ad) */
   parsedVast?: ParsedVast;
+
+  /** Pod içindeki pozisyon (1'den başlar) */
+  podPosition?: number;
+
+  /** Pod'daki toplam Ad sayısı */
+  podSize?: number;
+
+  /** Waterfall sonucu (hangi tag kazandı, diğerleri neden başarısız oldu) */
+  waterfall?: WaterfallResult;
+
+  /** Yüklü Ad'in viewability ölçümü */
+  viewability?: ViewabilityState;
+
+  /** Reklam auto-pause policy tarafından mı durduruldu? */
+  isAutoPaused?: boolean;
+}
+
+// ==================== AD CONTAINER EVENTS ====================
+
+/**
+ * Quartile event'leri (Start ve Complete dahil)
+ */
+export type QuartileEventType = 'Start' | 'FirstQuartile' | 'Midpoint' | 'ThirdQuartile' | 'Complete';
+
+/**
+ * AdContainer lifecycle event'leri ve payload'ları
+ * adContainer.on('quartile', ({ quartile }) => ...) şeklinde dinlenir
+ */
+export interface AdContainerEventMap {
+  /** Ad yüklendi (linear: MediaFile hazır, overlay: NonLinear gösterildi) */
+  loaded: { ad: ParsedVast; podPosition: number; podSize: number; isOverlay: boolean };
+
+  /** Ad oynamaya başladı (Start quartile'ı) */
+  started: { ad: ParsedVast };
+
+  /** Quartile'a ulaşıldı (tracker'ı olmasa da) */
+  quartile: { ad: ParsedVast; quartile: QuartileEventType };
+
+  /** Ad durduruldu (isAutoPause: auto-pause policy durdurdu) */
+  paused: { ad: ParsedVast; isAutoPause: boolean };
+
+  /** Ad devam etti (isAutoResume: auto-pause policy devam ettirdi) */
+  resumed: { ad: ParsedVast; isAutoResume: boolean };
+
+  /** Kullanıcı reklama tıkladı (ClickThrough açıldı) */
+  clicked: { ad: ParsedVast; clickThroughUrl?: string };
+
+  /** Kullanıcı reklamı atladı */
+  skipped: { ad: ParsedVast };
+
+  /** Ad MRC viewability standardını karşıladı */
+  viewableImpression: { ad: ParsedVast };
+
+  /** Pod'daki bir Ad sonuna kadar oynadı (Complete quartile'ı) */
+  adCompleted: { ad: ParsedVast; podPosition: number };
+
+  /** Reklamın tamamı (pod'un tamamı veya overlay) bitti */
+  completed: { podSize: number };
+
+  /** Reklam hatası (Error URI'leri fire edildikten sonra) */
+  error: { error: unknown; code: number; message: string };
+
+  /** AdContainerState değişti */
+  stateChange: { state: AdContainerState };
+}
+
+/**
+ * AdContainer event tipi
+ */
+export type AdContainerEventType = keyof AdContainerEventMap;
+
+/**
+ * AdContainer event listener'ı
+ */
+export type AdContainerEventListener<K extends AdContainerEventType> = (
+  payload: AdContainerEventMap[K]
+) => void;
+
+// ==================== VAST RESOLVER ====================
+
+/**
+ * Server'da oluşan VAST hatası (JSON'a serialize edilebilir VastError)
+ */
+export interface ResolvedVastError {
+  /** Error kodu */
+  code: VastErrorCode;
+
+  /** Error mesajı */
+  message: string;
+
+  /** Ek detaylar */
+  details?: string;
+
+  /** Hata anına kadar toplanan <Error> URI'leri */
+  errorUrls: string[];
+}
+
+/**
+ * VAST resolver endpoint'inin (/api/vast) JSON cevabı
+ */
+export interface VastResolveResponse {
+  /** Başarıyla çözülen Ad'ler (XML sırasıyla) */
+  ads: ParsedVast[];
+
+  /** Çözülemeyen Ad'lerin hataları */
+  errors: ResolvedVastError[];
+
+  /** VAST'ın kendisi çözülemediyse hata (ads boş) */
+  error?: ResolvedVastError;
+
+  /** Server'daki VAST request'lerinin süreleri (wrapper zinciri dahil) */
+  requests: VastRequestTiming[];
+}
+
+/**
+ * Server-side VAST çözümleme seçenekleri
+ */
+export interface VastResolveOptions {
+  /** Maksimum wrapper depth */
+  maxWrapperDepth?: number;
+
+  /** Tek bir VAST request'inin timeout'u (ms) */
+  requestTimeout?: number;
+
+  /**
+   * İstek atılabilecek host'lar (ilk tag, her wrapper ve redirect adımı kontrol edilir)
+   * "*.example.com" alt domain'leri (ve example.com'u) kapsar
+   */
+  allowedHosts: string[];
+
+  /** Ad server'a iletilecek header'lar (kullanıcının User-Agent'ı vb.) */
+  requestHeaders?: Record<string, string>;
+
+  /** Çözümlemeyi iptal eder (client bağlantıyı kapattığında) */
+  signal?: AbortSignal;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== TIMEOUTS ====================
+
+/**
+ * Timeout konfigürasyonu (ms, 0 veya negatif ise sınırsız)
+ */
+export interface TimeoutConfig {
+  /** Tek bir VAST XML request'i (default: 5000) - aşılırsa 301 */
+  vastRequest?: number;
+
+  /** Wrapper zincirinin tamamı, ilk request'ten InLine'a kadar (default: 10000) - aşılırsa 301 */
+  wrapperChain?: number;
+
+  /** MediaFile metadata yüklemesi (default: 10000) - aşılırsa 402 */
+  mediaLoad?: number;
+}
+
+/**
+ * Tek bir VAST XML request'inin süresi (timeout'ları ayarlamak için)
+ */
+export interface VastRequestTiming {
+  /** VAST XML URL'i (proxy'siz) */
+  url: string;
+
+  /** Wrapper depth'i (0: waterfall tag'in kendisi) */
+  depth: number;
+
+  /** Request sonucu */
+  status: 'success' | 'error' | 'timeout';
+
+  /** Request'in sürdüğü süre (ms) */
+  elapsedMs: number;
+}
+
+// ==================== AD SCHEDULER ====================
+
+/**
+ * Ad break'in content içindeki konumu
+ * - 'pre': Content başlamadan önce (pre-roll)
+ * - 'post': Content bittikten sonra (post-roll)
+ * - number: Content'in belirli saniyesinde (mid-roll)
+ * - '50%': Content süresinin yüzdesinde (mid-roll)
+ */
+export type AdBreakOffset = 'pre' | 'post' | number | `${number}%`;
+
+/**
+ * Schedule'daki tek bir ad break
+ */
+export interface AdBreak {
+  /** Break ID'si (verilmezse offset'ten üretilir) */
+  id?: string;
+
+  /** Break'in konumu */
+  offset: AdBreakOffset;
+
+  /** VAST XML URL'i (vastUrls verilmezse kullanılır) */
+  vastUrl?: string;
+
+  /** Waterfall: Sırayla denenecek VAST tag'leri */
+  vastUrls?: (string | WaterfallTag)[];
+}
+
+/**
+ * Ad break durumu
+ * - pending: Henüz zamanı gelmedi
+ * - playing: Reklam oynuyor
+ * - completed: Reklam bitti, content'e dönüldü
+ * - failed: Reklam yüklenemedi/oynatılamadı, content'e dönüldü
+ * - skipped: Kullanıcı break'in ilerisine seek etti
+ */
+export type AdBreakStatus = 'pending' | 'playing' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Tek bir ad break'in state'i
+ */
+export interface AdBreakState {
+  /** Break ID'si */
+  id: string;
+
+  /** Break'in konumu */
+  offset: AdBreakOffset;
+
+  /** Break durumu */
+  status: AdBreakStatus;
+
+  /** Başarısızsa hata mesajı */
+  errorMessage?: string;
+}
+
+/**
+ * AdScheduler'ın state'i
+ */
+export interface AdSchedulerState {
+  /** Tüm break'lerin durumu (schedule sırasıyla) */
+  breaks: AdBreakState[];
+
+  /** Şu an oynayan break (yoksa null) */
+  activeBreak: AdBreakState | null;
+
+  /** Content reklam için durduruldu mu? */
+  isInBreak: boolean;
+}
+
+/**
+ * AdScheduler konfigürasyonu
+ */
+export interface AdSchedulerConfig {
+  /** Content video elementi */
+  contentElement: HTMLVideoElement;
+
+  /**
+   * Content video URL'i (break sonrası geri yüklenir)
+   * Verilmezse contentElement'in mevcut src'si kullanılır; element'in src'si boşsa
+   * (örn. önceki bir AdContainer destroy ettiyse) verilmelidir
+   */
+  contentSrc?: string;
+
+  /** Ad break'ler */
+  breaks: AdBreak[];
+
+  /**
+   * Reklamın oynatılacağı ayrı video elementi (content'in üzerinde overlay)
+   * Verilmezse reklam content elementinde oynatılır ve content src'si sonra geri yüklenir
+   */
+  adVideoElement?: HTMLVideoElement;
+
+  /** Logger callback fonksiyonu - Her tracker fire'ında çağrılır */
+  loggerCallback: (log: TrackingLog) => void;
+
+  /** Break state'i değiştiğinde çağrılır */
+  onStateChange?: (state: AdSchedulerState) => void;
+
+  /** Break'teki bir reklam MRC viewability standardını karşıladığında çağrılır */
+  onViewableImpression?: () => void;
+
+  /** Break'teki reklamlar için auto-pause policy */
+  autoPause?: AutoPauseConfig;
+
+  /** Break'teki reklamlar için ek media source adapter'ları (HLS/DASH) */
+  mediaSourceAdapters?: MediaSourceAdapter[];
+
+  /** Proxy konfigürasyonu */
+  proxyConfig?: ProxyConfig;
+
+  /**
+   * VAST'ı server'da çözen endpoint (örn. '/api/vast')
+   * Verilirse wrapper zinciri server'da takip edilir (CORS ve proxy gerekmez)
+   */
+  vastResolverUrl?: string;
+
+  /**
+   * VAST ve tracker request'lerini gönderen transport
+   * Verilmezse proxyConfig ile bir FetchTransport oluşturulur
+   */
+  transport?: Transport;
+
+  /**
+   * Tracker gönderim yöntemi (default: 'keepalive', sayfa kapansa da tamamlanır)
+   * Sayfa gizliyken fire edilen fetch/image tracker'ları beacon ile gönderilir
+   */
+  trackerTransport?: TrackerTransport;
+
+  /**
+   * Tracker doğrulama modu: tracker'lar CORS fetch ile gönderilir, gerçek status code,
+   * süre ve redirect zinciri loglanır (beacon/image yerine fetch kullanılır)
+   * CORS header'ı vermeyen tracker'lar 'opaque' loglanır; status'ları için first-party proxy kullanın
+   */
+  verifyTrackers?: boolean;
+
+  /** Publisher'a özel macro'lar */
+  macros?: Record<string, MacroValue>;
+
+  /** Companion reklamların render edileceği slot'lar */
+  companionSlots?: CompanionSlot[];
+
+  /** Waterfall'da timeout'u verilmemiş tag'ler için default timeout (ms) */
+  tagTimeout?: number;
+
+  /** Break'teki reklamlar için VAST request, wrapper zinciri ve MediaFile yükleme timeout'ları */
+  timeouts?: TimeoutConfig;
+
+  /** Debug mode (console'a detaylı log yazsın mı) */
+  debug?: boolean;
 }
 
 // ==================== QUARTILE TRACKING ====================
@@ -231,8 +1044,260 @@ export interface QuartileTrackerConfig {
   /** Tracker firing callback */
   onFire: (eventType: VastEventType, urls: string[]) => void;
 
+  /** Her event'te çağrılır (tracker URL'i olmasa da) */
+  onEvent?: (eventType: VastEventType) => void;
+
   /** Tolerans (saniye cinsinden) */
   tolerance?: number;
+
+  /**
+   * VAST Linear Duration (saniye)
+   * Stream'lerde video.duration bilinmiyorsa veya sonsuzsa quartile'lar buna göre hesaplanır
+   */
+  duration?: number;
+}
+
+// ==================== COMPANION RENDERER ====================
+
+/**
+ * CompanionRenderer konfigürasyonu
+ */
+export interface CompanionRendererConfig {
+  /** Publisher slot'ları */
+  slots: CompanionSlot[];
+
+  /** Tracker firing callback (creativeView) */
+  onFire: (eventType: VastEventType, urls: string[]) => void;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== OVERLAY RENDERER ====================
+
+/**
+ * OverlayRenderer konfigürasyonu
+ */
+export interface OverlayRendererConfig {
+  /** Overlay'in üzerine yerleşeceği video elementi */
+  videoElement: HTMLVideoElement;
+
+  /** Tracker firing callback (creativeView, close) */
+  onFire: (eventType: VastEventType, urls: string[]) => void;
+
+  /** Overlay kullanıcı tarafından kapatıldığında */
+  onClose?: () => void;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== SKIP CONTROLLER ====================
+
+/**
+ * SkipController konfigürasyonu
+ */
+export interface SkipControllerConfig {
+  /** Skip butonunun üzerine yerleşeceği video elementi */
+  videoElement: HTMLVideoElement;
+
+  /** Reklamın atlanabilir olduğu an */
+  skipOffset: SkipOffset;
+
+  /**
+   * VAST Linear Duration (saniye)
+   * Stream'lerde video.duration bilinmiyorsa veya sonsuzsa yüzde offset buna göre hesaplanır
+   */
+  duration?: number;
+
+  /** Kullanıcı Skip butonuna bastığında */
+  onSkip: () => void;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== CLICK-THROUGH CONTROLLER ====================
+
+/**
+ * ClickThroughController konfigürasyonu
+ */
+export interface ClickThroughControllerConfig {
+  /** Tıklama alanının üzerine yerleşeceği video elementi */
+  videoElement: HTMLVideoElement;
+
+  /** Kullanıcı video'ya tıkladığında */
+  onClick: () => void;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== VIEWABILITY ====================
+
+/**
+ * Viewability ölçüm durumu
+ */
+export interface ViewabilityState {
+  /** Player'ın viewport'ta görünen oranı (0-1 arası) */
+  percentInView: number;
+
+  /** Sayfa (tab) görünür mü? */
+  isPageVisible: boolean;
+
+  /** Şu an viewable sayılıyor mu? (eşik üstü + sayfa görünür + video oynuyor) */
+  isViewable: boolean;
+
+  /** Kesintisiz viewable geçen süre (ms) */
+  continuousViewableMs: number;
+
+  /** MRC standardı karşılandı mı? (viewable impression) */
+  viewableImpression: boolean;
+
+  /** Ölçüm yapılabiliyor mu? (IntersectionObserver desteği ve ilk gözlem) */
+  isMeasurable: boolean;
+}
+
+/**
+ * ViewabilityTracker konfigürasyonu
+ */
+export interface ViewabilityTrackerConfig {
+  /** Ölçülecek video elementi */
+  videoElement: HTMLVideoElement;
+
+  /** Viewable sayılmak için minimum görünür oran (default: 0.5 - MRC video) */
+  minVisiblePercent?: number;
+
+  /** Viewable impression için kesintisiz süre (ms, default: 2000 - MRC video) */
+  minViewableTime?: number;
+
+  /** Ölçüm durumu değiştiğinde */
+  onChange?: (state: ViewabilityState) => void;
+
+  /** MRC standardı karşılandığında (bir kez) */
+  onViewableImpression: () => void;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== MEDIA FILE SELECTION ====================
+
+/**
+ * MediaFile scoring'inde kullanılan ortam bilgisi
+ */
+export interface MediaFileScoreContext {
+  /** Player'ın render edilen genişliği (fiziksel piksel) */
+  playerWidth: number;
+
+  /** Player'ın render edilen yüksekliği (fiziksel piksel) */
+  playerHeight: number;
+
+  /** Ölçülen veya tahmin edilen bant genişliği (kbps, bilinmiyorsa undefined) */
+  bandwidthKbps?: number;
+}
+
+/**
+ * Tek bir MediaFile'ın skor detayı
+ */
+export interface MediaFileScore {
+  /** Skorlanan MediaFile */
+  mediaFile: MediaFile;
+
+  /** Oynatılabilirlik (0-1, 0 ise oynatılamaz) */
+  playability: number;
+
+  /** MediaFile'ı oynatacak adapter (playability 0 ise undefined) */
+  adapter?: MediaSourceAdapter;
+
+  /** Çözünürlüğün player boyutuna yakınlığı (0-1) */
+  size: number;
+
+  /** Bitrate'in bant genişliğine uygunluğu (0-1) */
+  bandwidth: number;
+
+  /** Toplam skor (yüksek önce) */
+  total: number;
+}
+
+/**
+ * MediaFile skor ağırlıkları
+ */
+export interface MediaFileScoreWeights {
+  playability: number;
+  size: number;
+  bandwidth: number;
+}
+
+/**
+ * MediaFile seçim konfigürasyonu (publisher override'ları)
+ */
+export interface MediaFileSelectionConfig {
+  /** Skor ağırlıkları (default: playability 1, size 1, bandwidth 1.5) */
+  weights?: Partial<MediaFileScoreWeights>;
+
+  /** Bilinen bant genişliği (kbps) - verilirse ölçüm yapılmaz */
+  bandwidthKbps?: number;
+
+  /**
+   * Bant genişliği probe URL'i (CORS açık, birkaç yüz KB'lık dosya)
+   * Network Information API yoksa indirme süresinden bant genişliği ölçülür
+   */
+  probeUrl?: string;
+
+  /**
+   * Özel scorer: Default skoru değiştirmek için
+   * Oynatılamayan (playability 0) MediaFile'lar her durumda elenir
+   */
+  scoreMediaFile?: (score: MediaFileScore, context: MediaFileScoreContext) => number;
+}
+
+/**
+ * MediaFileSelector konfigürasyonu
+ */
+export interface MediaFileSelectorConfig extends MediaFileSelectionConfig {
+  /** Reklamın oynatılacağı video elementi */
+  videoElement: HTMLVideoElement;
+
+  /** Media source adapter'ları (öncelik sırasıyla) */
+  adapters: MediaSourceAdapter[];
+
+  /** Abort edilince bant genişliği probe'u iptal edilir */
+  signal?: AbortSignal;
+
+  /** Debug mode */
+  debug?: boolean;
+}
+
+// ==================== MEDIA SOURCE ADAPTER ====================
+
+/**
+ * Media source adapter: Bir MediaFile'ı video elementine bağlar
+ *
+ * Progressive MP4/WebM için src yeterlidir; HLS/DASH çoğu tarayıcıda
+ * MSE tabanlı bir player (hls.js, dash.js) gerektirir. Publisher bu
+ * interface'i implement ederek kendi player'ını takabilir.
+ */
+export interface MediaSourceAdapter {
+  /** Adapter adı (log için) */
+  readonly name: string;
+
+  /**
+   * MediaFile bu video elementinde oynatılabilir mi?
+   * canPlayType ile aynı semantik: 'probably' > 'maybe' > '' (oynatılamaz)
+   */
+  canPlay(mediaFile: MediaFile, videoElement: HTMLVideoElement): CanPlayTypeResult;
+
+  /**
+   * MediaFile'ı video elementine bağla (src set, MSE attach vb.)
+   * Metadata yüklenmesi AdContainer tarafından beklenir
+   *
+   * @param url - Macro'ları expand edilmiş MediaFile URL'i
+   */
+  attach(videoElement: HTMLVideoElement, url: string, mediaFile: MediaFile): void | Promise<void>;
+
+  /** Video elementinden ayrıl (MSE kaynaklarını serbest bırak) */
+  detach(videoElement: HTMLVideoElement): void;
 }
 
 // ==================== TRACKING MANAGER CONFIG ====================
@@ -244,8 +1309,23 @@ export interface TrackingManagerConfig {
   /** Logger callback */
   loggerCallback: (log: TrackingLog) => void;
 
-  /** Proxy konfigürasyonu */
-  proxyConfig?: ProxyConfig;
+  /** Tracker request'lerini gönderen transport */
+  transport: Transport;
+
+  /** Tracker gönderim yöntemi (default: 'keepalive') */
+  trackerTransport?: TrackerTransport;
+
+  /** Tracker'lar CORS fetch ile gönderilip cevapları doğrulanır (default: false) */
+  verifyTrackers?: boolean;
+
+  /** Macro expander (verilmezse sadece built-in macro'lar kullanılır) */
+  macroExpander?: MacroExpander;
+
+  /** Her fire'da güncel macro context'ini döndürür (playhead, asset URI) */
+  getMacroContext?: () => MacroContext;
+
+  /** Abort edilince bekleyen tracker request'leri iptal edilir */
+  signal?: AbortSignal;
 
   /** Debug mode */
   debug?: boolean;
@@ -253,16 +1333,43 @@ export interface TrackingManagerConfig {
 
 // ==================== VAST PARSER CONFIG ====================
 
+/**
+ * VastParser'ın XML dokümanından kullandığı kısım
+ */
+export type VastXmlDocument = Pick<Document, 'querySelector' | 'querySelectorAll'>;
+
+/**
+ * VastParser'ın ihtiyaç duyduğu XML parser (tarayıcı DOMParser'ı veya linkedom)
+ */
+export interface VastXmlParser {
+  parseFromString(source: string, mimeType: 'text/xml'): VastXmlDocument;
+}
+
 /**
  * VastParser konfigürasyonu
  */
 export interface VastParserConfig {
-  /** Proxy konfigürasyonu */
-  proxyConfig?: ProxyConfig;
+  /** VAST request'lerini gönderen transport */
+  transport: Transport;
 
   /** Maksimum wrapper depth */
   maxWrapperDepth?: number;
 
+  /** Tek bir VAST request'inin timeout'u (ms, verilmezse sınırsız) */
+  requestTimeout?: number;
+
+  /** Her VAST request'i bittiğinde süresiyle çağrılır */
+  onRequest?: (timing: VastRequestTiming) => void;
+
+  /**
+   * VAST resolver endpoint'i
+   * Verilirse parseAll() VAST'ı kendisi fetch etmez, endpoint'in JSON cevabını kullanır
+   */
+  resolverUrl?: string;
+
+  /** XML parser (verilmezse global DOMParser; server'da linkedom vb.) */
+  domParser?: VastXmlParser;
+
   /** Debug mode */
   debug?: boolean;
 }
@@ -285,6 +1392,7 @@ export enum VastErrorCode {
   WRAPPER_LIMIT_REACHED = 302,
   WRAPPER_NO_ADS = 303,
   GENERAL_LINEAR_ERROR = 400,
+  GENERAL_NONLINEAR_ERROR = 500,
   UNDEFINED_ERROR = 900,
 }
 
@@ -301,6 +1409,9 @@ export interface VastError {
   /** Ek detaylar */
   details?: string;
 
+  /** Hata anına kadar toplanan <Error> URI'leri (wrapper zinciri + inline) */
+  errorUrls?: string[];
+
   /** Original error (varsa) */
   originalError?: Error;
 }
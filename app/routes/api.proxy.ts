@@ -0,0 +1,51 @@
+/**
+ * CORS Proxy API - First-party VAST ve Tracker Proxy'si
+ *
+ * GET /api/proxy?url=<hedef URL>
+ * POST /api/proxy?url=<hedef URL> (sendBeacon tracker'ları; upstream'e GET olarak iletilir)
+ *
+ * ProxyConfig { type: 'first-party' } bu route'u kullanır.
+ * Proxy'lenebilecek host'lar VAST_PROXY_ALLOWED_HOSTS env'i ile verilir
+ * (virgülle ayrılmış, "*.example.com" alt domain'leri kapsar). Verilmezse sadece
+ * yaygın ad server'lar (development'ta localhost ve httpbin.org da) izinlidir.
+ *
+ * STATUS KODLARI:
+ * - Upstream'in status'u (başarılı proxy)
+ * - 400: url parametresi eksik veya http(s) değil
+ * - 403: Host (veya redirect hedefi) allowlist'te değil
+ * - 502: Upstream hatası, çok büyük response veya çok fazla redirect
+ * - 504: Upstream timeout
+ */
+
+import type { Route } from "./+types/api.proxy";
+import { proxyRequest, preflightResponse, getAllowedHosts } from "~/lib/vast/CorsProxy.server";
+import type { CorsProxyConfig } from "~/lib/vast/types";
+
+const PROXY_CONFIG: CorsProxyConfig = {
+  allowedHosts: getAllowedHosts(),
+};
+
+export async function loader({ request }: Route.LoaderArgs) {
+  return proxyRequest(request, PROXY_CONFIG);
+}
+
+/**
+ * GET/HEAD dışındaki method'lar (CORS preflight ve beacon POST'ları)
+ */
+export async function action({ request }: Route.ActionArgs) {
+  if (request.method === 'OPTIONS') {
+    return preflightResponse();
+  }
+
+  // navigator.sendBeacon her zaman POST gönderir; beacon body'si yok sayılır
+  if (request.method === 'POST') {
+    return proxyRequest(request, PROXY_CONFIG);
+  }
+
+  return new Response('Method not allowed', {
+    status: 405,
+    headers: {
+      Allow: 'GET, HEAD, POST, OPTIONS',
+    },
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * VAST Resolver API - Server-side VAST Çözümleme
+ *
+ * GET /api/vast?url=<VAST URL>[&maxWrapperDepth=3][&requestTimeout=5000]
+ *
+ * Wrapper zincirini server'da çözer ve VastResolveResponse (JSON) döner.
+ * AdContainer'a vastResolverUrl: '/api/vast' verilirse VAST bu endpoint'ten alınır.
+ * İstek atılabilecek host'lar proxy ile aynı allowlist'tir (VAST_PROXY_ALLOWED_HOSTS);
+ * wrapper zincirinin her adımı kontrol edilir.
+ *
+ * STATUS KODLARI (body her durumda VastResolveResponse):
+ * - 200: En az bir Ad çözüldü (başarısız Ad'ler errors'ta)
+ * - 400: url parametresi eksik veya http(s) değil
+ * - 403: VAST host'u allowlist'te değil
+ * - 404: VAST'ta reklam yok (101 / 303)
+ * - 504: VAST request'i veya wrapper zinciri timeout (301)
+ * - 502: Diğer VAST hataları (fetch, XML parse, wrapper limiti)
+ */
+
+import type { Route } from "./+types/api.vast";
+import { resolveVast } from "~/lib/vast/VastResolver.server";
+import { getAllowedHosts, getClientIp, isHostAllowed } from "~/lib/vast/CorsProxy.server";
+import { VastErrorCode } from "~/lib/vast/types";
+import type { VastResolveResponse } from "~/lib/vast/types";
+
+/**
+ * Ad server'a iletilen kullanıcı header'ları (hedefleme için)
+ */
+const FORWARDED_HEADERS = ['user-agent', 'accept-language'];
+
+const ALLOWED_HOSTS = getAllowedHosts();
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const params = new URL(request.url).searchParams;
+  const vastUrl = params.get('url');
+
+  if (!vastUrl || !isHttpUrl(vastUrl)) {
+    return errorJson('Missing or invalid url parameter', 'url must be an absolute http(s) URL', 400);
+  }
+
+  const hostname = new URL(vastUrl).hostname;
+  if (!isHostAllowed(hostname, ALLOWED_HOSTS)) {
+    return errorJson('Host not allowed', `${hostname} is not in VAST_PROXY_ALLOWED_HOSTS`, 403);
+  }
+
+  const requestHeaders: Record<string, string> = {};
+  FORWARDED_HEADERS.forEach((name) => {
+    const value = request.headers.get(name);
+    if (value) {
+      requestHeaders[name] = value;
+    }
+  });
+
+  // Client'ın gönderdiği X-Forwarded-For değil, platformun verdiği IP
+  const clientIp = getClientIp(request);
+  if (clientIp) {
+    requestHeaders['x-forwarded-for'] = clientIp;
+  }
+
+  // Client bağlantıyı kapatırsa (wrapper zinciri timeout'u vb.) çözümleme iptal edilir
+  const result = await resolveVast(vastUrl, {
+    maxWrapperDepth: parsePositiveInt(params.get('maxWrapperDepth')),
+    requestTimeout: parsePositiveInt(params.get('requestTimeout')),
+    allowedHosts: ALLOWED_HOSTS,
+    requestHeaders,
+    signal: request.signal,
+  });
+
+  return json(result, getStatus(result));
+}
+
+/**
+ * Sonuca göre HTTP status
+ */
+function getStatus(result: VastResolveResponse): number {
+  // Tüm Ad'ler başarısızsa ilk Ad'in hatası belirler
+  const error = result.error ?? (result.ads.length === 0 ? result.errors[0] : undefined);
+  if (!error) {
+    return 200;
+  }
+
+  switch (error.code) {
+    case VastErrorCode.VAST_SCHEMA_VALIDATION_ERROR:
+    case VastErrorCode.WRAPPER_NO_ADS:
+      return 404;
+
+    case VastErrorCode.WRAPPER_TIMEOUT:
+      return 504;
+
+    default:
+      return 502;
+  }
+}
+
+/**
+ * JSON response (VAST cevapları cache'lenmez: her request yeni bir auction)
+ */
+function json(body: VastResolveResponse, status: number): Response {
+  return Response.json(body, {
+    status,
+    headers: {
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/**
+ * Çözümleme başlamadan dönülen hata response'u
+ */
+function errorJson(message: string, details: string, status: number): Response {
+  return json(
+    {
+      ads: [],
+      errors: [],
+      error: {
+        code: VastErrorCode.UNDEFINED_ERROR,
+        message,
+        details,
+        errorUrls: [],
+      },
+      requests: [],
+    },
+    status
+  );
+}
+
+/**
+ * Sadece http(s) URL'leri çözülür
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Query parametresini pozitif tam sayıya çevir (geçersizse undefined)
+ */
+function parsePositiveInt(value: string | null): number | undefined {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : undefined;
+}
@@ -14,8 +14,16 @@ import type { Route } from "./+types/home";
 import { useVastAd } from "../hooks/useVastAd";
 import { ControlPanel } from "../components/vast-dashboard/ControlPanel";
 import { VideoPlayer } from "../components/vast-dashboard/VideoPlayer";
+import { CompanionAds } from "../components/vast-dashboard/CompanionAds";
 import { TrafficLog } from "../components/vast-dashboard/TrafficLog";
 import type { ProxyConfig } from "~/lib/vast";
+import { resolveVast } from "~/lib/vast/VastResolver.server";
+import { getAllowedHosts } from "~/lib/vast/CorsProxy.server";
+
+/**
+ * Server-side VAST resolver endpoint'i (routes/api.vast.ts)
+ */
+const VAST_RESOLVER_URL = "/api/vast";
 
 export function meta({ }: Route.MetaArgs) {
   return [
@@ -27,8 +35,9 @@ export function meta({ }: Route.MetaArgs) {
 /**
  * Server-side loader - VAST validation ve 404 handling
  *
- * Query parameter'dan vastUrl varsa server-side fetch edip validate eder.
- * VAST boşsa (no <Ad> element) HTTP 404 response döner.
+ * Query parameter'dan vastUrl varsa wrapper zinciri dahil server-side çözer.
+ * İzinli host'lar /api/vast ile aynıdır (VAST_PROXY_ALLOWED_HOSTS + uygulamanın kendi host'u).
+ * Oynatılabilir Ad yoksa (boş VAST, wrapper hatası vb.) HTTP 404 response döner.
  */
 export async function loader({ request }: Route.LoaderArgs) {
   const url = new URL(request.url);
@@ -44,68 +53,26 @@ export async function loader({ request }: Route.LoaderArgs) {
   const vastUrl = decodeURIComponent(rawVastUrl);
   console.log('[Loader] Decoded VAST URL:', vastUrl);
 
-  try {
-    console.log('[Loader] Validating VAST URL:', vastUrl);
-
-    // VAST XML fetch et
-    const response = await fetch(vastUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/xml, text/xml, */*',
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Referer': request.url,
-      },
-      cache: 'no-cache',
-    });
-
-    //Fetch başarısız ise 404 throw et
-    if (!response.ok) {
-      console.log('[Loader] Fetch failed - Throwing 404');
-      throw new Response("VAST URL could not be fetched", {
-        status: 404,
-        statusText: "Not Found",
-        headers: {
-          "Content-Type": "text/plain",
-        },
-      });
-    }
-
-    const xmlText = await response.text()
-
-    console.log(xmlText, "XML")
-    console.log('[Loader] XML fetched, length:', xmlText.length);
-
-    // XML parse et - <Ad> elementi kontrolü
-    // Regex ile daha esnek kontrol: <Ad>, <Ad >, <Ad\n>, <ad>, vs.
-    const hasAdElement = /<Ad[\s>]/i.test(xmlText);
+  console.log('[Loader] Resolving VAST URL:', vastUrl);
 
-    console.log('[Loader] Has Ad element:', hasAdElement);
-    console.log('[Loader] XML preview:', xmlText.substring(0, 500));
+  const result = await resolveVast(vastUrl, {
+    allowedHosts: getAllowedHosts(),
+    requestHeaders: {
+      'User-Agent': request.headers.get('user-agent') || 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Referer': request.url,
+    },
+    signal: request.signal,
+  });
 
-    if (!hasAdElement) {
-      console.log('[Loader] No ad found - Throwing 404');
-      throw new Response("No ad available in VAST response", {
-        status: 404,
-        statusText: "Not Found",
-        headers: {
-          "Content-Type": "text/plain",
-        },
-      });
-    }
-
-    console.log('[Loader] VAST validated successfully');
-    return { validated: true, vastUrl };
+  console.log('[Loader] Resolved ads:', result.ads.length, 'requests:', result.requests.length);
 
-  } catch (error) {
-    // Response objesi ise direkt throw (404 döner)
-    if (error instanceof Response) {
-      console.log('[Loader] Re-throwing Response error');
-      throw error;
-    }
+  if (result.error || result.ads.length === 0) {
+    const message = result.error
+      ? `[${result.error.code}] ${result.error.message}`
+      : 'No ad available in VAST response';
 
-    // Network hataları için de 404 throw et
-    console.error('[Loader] Network or parse error - Throwing 404:', error);
-    throw new Response("VAST could not be loaded", {
+    console.log('[Loader] No playable ad - Throwing 404:', message);
+    throw new Response(message, {
       status: 404,
       statusText: "Not Found",
       headers: {
@@ -113,13 +80,26 @@ export async function loader({ request }: Route.LoaderArgs) {
       },
     });
   }
+
+  console.log('[Loader] VAST validated successfully');
+  return { validated: true, vastUrl };
 }
 
 
 
 export default function Home() {
   // VAST ad management hook
-  const { videoRef, logs, isLoading, error, otsAchieved, loadAd, clearLogs } = useVastAd();
+  const {
+    videoRef,
+    companionSlotRef,
+    companions,
+    logs,
+    isLoading,
+    error,
+    otsAchieved,
+    loadAd,
+    clearLogs,
+  } = useVastAd();
 
   // Client-side query parameter detection (SSR-safe)
   const [hasQueryParam, setHasQueryParam] = useState(false);
@@ -154,7 +134,8 @@ export default function Home() {
       if (videoRef.current) {
         console.log('[Home useEffect interval] videoRef ready! Loading ad...');
         clearInterval(checkVideoRef);
-        loadAd(vastUrl, { type: 'none' });
+        // Loader VAST'ı server'da doğruladı; client da server'dan çözdürür (CORS yok)
+        loadAd(vastUrl, { type: 'none' }, VAST_RESOLVER_URL);
       }
     }, 100);
 
@@ -173,9 +154,19 @@ export default function Home() {
   }, []); // Sadece mount'ta bir kez çalış
 
   // Load ad handler (manuel test için)
-  const handleLoadAd = (vastUrl: string, proxyConfig: ProxyConfig) => {
-    console.log('[Dashboard] Loading ad:', vastUrl, 'with proxy:', proxyConfig);
-    loadAd(vastUrl, proxyConfig);
+  const handleLoadAd = (
+    vastUrls: string[],
+    proxyConfig: ProxyConfig,
+    resolveOnServer: boolean,
+    verifyTrackers: boolean
+  ) => {
+    console.log(
+      '[Dashboard] Loading ad:', vastUrls,
+      'with proxy:', proxyConfig,
+      'server-side:', resolveOnServer,
+      'verify trackers:', verifyTrackers
+    );
+    loadAd(vastUrls, proxyConfig, resolveOnServer ? VAST_RESOLVER_URL : undefined, verifyTrackers);
   };
 
   if (hasQueryParam) {
@@ -208,8 +199,15 @@ export default function Home() {
               <ControlPanel onLoadAd={handleLoadAd} isLoading={isLoading} />
             )}
 
-            {/* Video Player */}
-            <VideoPlayer ref={videoRef} error={error} isLoading={isLoading} />
+            {/* Video Player + Companion */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="md:col-span-2">
+                <VideoPlayer ref={videoRef} error={error} isLoading={isLoading} />
+              </div>
+              <div className="md:col-span-1">
+                <CompanionAds ref={companionSlotRef} companions={companions} />
+              </div>
+            </div>
           </div>
 
           {/* Right Column: Traffic Log */}
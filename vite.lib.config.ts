@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+/**
+ * Container Tag library build (UMD)
+ * Publisher sayfalarında React olmadan çalışan standalone script üretir.
+ */
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  publicDir: false,
+  build: {
+    outDir: "dist",
+    emptyOutDir: true,
+    sourcemap: true,
+    target: "es2020",
+    lib: {
+      entry: "app/lib/container-tag/index.ts",
+      name: "ContainerTag",
+      formats: ["umd"],
+      fileName: () => "container-tag.umd.js",
+    },
+  },
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// React Router ve Netlify plugin'leri olmadan (sadece app/lib unit testleri)
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+});